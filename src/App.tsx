@@ -2,16 +2,31 @@ import React, { Suspense, lazy } from 'react';
 import { Navigate, Route, Routes } from 'react-router-dom';
 import ProtectedRoute from './routes/ProtectedRoute';
 import AppLayout from './layouts/AppLayout';
+import Forbidden from './pages/Forbidden';
 import { useAuth } from './state/AuthContext';
 
 const Login = lazy(() => import('./pages/Login'));
 const Dashboard = lazy(() => import('./pages/Dashboard'));
+const Cohorts = lazy(() => import('./pages/Cohorts'));
 const Content = lazy(() => import('./pages/Content'));
+const MovieDetail = lazy(() => import('./pages/MovieDetail'));
+const TitleAnalytics = lazy(() => import('./pages/TitleAnalytics'));
 const Series = lazy(() => import('./pages/Series'));
 const ManageSeriesPage = lazy(() => import('./pages/ManageSeriesPage'));
+const MetadataMigration = lazy(() => import('./pages/MetadataMigration'));
 const Users = lazy(() => import('./pages/Users'));
+const UserDetail = lazy(() => import('./pages/UserDetail'));
 const Health = lazy(() => import('./pages/Health'));
 
+// Not every role can see analytics, so send people to the first page they're allowed to use.
+const HomeRoute: React.FC = () => {
+  const { can } = useAuth();
+  if (can('analytics:view')) return <Dashboard />;
+  if (can('content:view')) return <Navigate to="/content" replace />;
+  if (can('users:view')) return <Navigate to="/users" replace />;
+  return <Forbidden />;
+};
+
 const App: React.FC = () => {
   const { user } = useAuth();
 
@@ -25,12 +40,18 @@ const App: React.FC = () => {
             <ProtectedRoute>
               <AppLayout>
                 <Routes>
-                  <Route path="/" element={<Dashboard />} />
-                  <Route path="/content" element={<Content />} />
-                  <Route path="/series" element={<Series />} />
-                  <Route path="/series/:seriesId/manage" element={<ManageSeriesPage />} />
-                  <Route path="/users" element={<Users />} />
-                  <Route path="/health" element={<Health />} />
+                  <Route path="/" element={<HomeRoute />} />
+                  <Route path="/cohorts" element={<ProtectedRoute permission="analytics:view"><Cohorts /></ProtectedRoute>} />
+                  <Route path="/content" element={<ProtectedRoute permission="content:view"><Content /></ProtectedRoute>} />
+                  <Route path="/content/:movieId" element={<ProtectedRoute permission="content:view"><MovieDetail /></ProtectedRoute>} />
+                  <Route path="/content/:movieId/analytics" element={<ProtectedRoute permission="analytics:view"><TitleAnalytics kind="movie" /></ProtectedRoute>} />
+                  <Route path="/series" element={<ProtectedRoute permission="content:view"><Series /></ProtectedRoute>} />
+                  <Route path="/series/:seriesId/manage" element={<ProtectedRoute permission="content:edit"><ManageSeriesPage /></ProtectedRoute>} />
+                  <Route path="/series/:seriesId/analytics" element={<ProtectedRoute permission="analytics:view"><TitleAnalytics kind="series" /></ProtectedRoute>} />
+                  <Route path="/metadata" element={<ProtectedRoute permission="content:edit"><MetadataMigration /></ProtectedRoute>} />
+                  <Route path="/users" element={<ProtectedRoute permission="users:view"><Users /></ProtectedRoute>} />
+                  <Route path="/users/:userId" element={<ProtectedRoute permission="users:view"><UserDetail /></ProtectedRoute>} />
+                  <Route path="/health" element={<ProtectedRoute permission="integrations:view"><Health /></ProtectedRoute>} />
                   <Route path="*" element={<Navigate to="/" replace />} />
                 </Routes>
               </AppLayout>
@@ -0,0 +1,76 @@
+import { z } from 'zod';
+import api from './client';
+import { request, send } from './request';
+import {
+  cohortsSchema,
+  contentDistributionSchema,
+  dashboardLayoutSchema,
+  dashboardStatsSchema,
+  genreDistributionSchema,
+  liveActivitySchema,
+  premiumChurnSchema,
+  recommendationSchema,
+  streamTicketSchema,
+  titleAnalyticsSchema,
+  topContentSchema,
+  userGrowthSchema,
+  viewsPerDaySchema,
+  type DashboardLayout
+} from './schemas';
+
+export type Granularity = 'day' | 'week' | 'month';
+
+export interface AnalyticsRange {
+  // Inclusive ISO dates (yyyy-mm-dd).
+  from: string;
+  to: string;
+}
+
+export interface SeriesParams extends AnalyticsRange {
+  // Bucket size for time series; `_id` of each point is the bucket's start date.
+  granularity: Granularity;
+}
+
+export type CohortPeriod = 'week' | 'month';
+
+export interface CohortParams {
+  period: CohortPeriod;
+  // How many of the most recent cohorts to return.
+  count: number;
+}
+
+export const analyticsApi = {
+  dashboard: (range: AnalyticsRange) =>
+    request(dashboardStatsSchema, { method: 'GET', url: '/admin/analytics/dashboard', params: range }),
+  viewsPerDay: (params: SeriesParams) =>
+    request(viewsPerDaySchema, { method: 'GET', url: '/admin/analytics/views-per-day', params }),
+  userGrowth: (params: SeriesParams) =>
+    request(userGrowthSchema, { method: 'GET', url: '/admin/analytics/user-growth', params }),
+  contentDistribution: () =>
+    request(contentDistributionSchema, { method: 'GET', url: '/admin/analytics/content-distribution' }),
+  genreDistribution: () => request(genreDistributionSchema, { method: 'GET', url: '/admin/analytics/genre-distribution' }),
+  topContent: (range: AnalyticsRange) =>
+    request(topContentSchema, { method: 'GET', url: '/admin/analytics/top-content', params: range }),
+  movie: (id: string, params: SeriesParams) =>
+    request(titleAnalyticsSchema, { method: 'GET', url: `/admin/analytics/movies/${id}`, params }),
+  series: (id: string, params: SeriesParams) =>
+    request(titleAnalyticsSchema, { method: 'GET', url: `/admin/analytics/series/${id}`, params }),
+  cohorts: (params: CohortParams) => request(cohortsSchema, { method: 'GET', url: '/admin/analytics/cohorts', params }),
+  premiumChurn: (params: CohortParams) =>
+    request(premiumChurnSchema, { method: 'GET', url: '/admin/analytics/premium-churn', params }),
+  live: () => request(liveActivitySchema, { method: 'GET', url: '/admin/analytics/live' }),
+  // EventSource can't send an Authorization header, so the stream is opened with a one-time ticket
+  // fetched just before connecting. Each `message` event carries a full live-activity snapshot.
+  liveStreamTicket: () => request(streamTicketSchema, { method: 'POST', url: '/admin/analytics/live/stream-ticket' }),
+  liveStreamUrl: (ticket: string) => {
+    const url = new URL(`${api.defaults.baseURL}/admin/analytics/live/stream`);
+    url.searchParams.set('ticket', ticket);
+    return url.toString();
+  },
+  // The signed-in admin's own dashboard layout; null until they save one.
+  layout: () => request(dashboardLayoutSchema.nullable(), { method: 'GET', url: '/admin/analytics/dashboard-layout' }),
+  saveLayout: (layout: DashboardLayout) =>
+    request(dashboardLayoutSchema, { method: 'PUT', url: '/admin/analytics/dashboard-layout', data: layout }),
+  resetLayout: () => send({ method: 'DELETE', url: '/admin/analytics/dashboard-layout' }),
+  recommendations: () => request(z.array(recommendationSchema).default([]), { method: 'GET', url: '/recommendations' })
+};
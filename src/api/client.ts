@@ -12,7 +12,7 @@ const api = axios.create({
   baseURL: normalizeBaseUrl(import.meta.env.VITE_API_BASE)
 });
 
-const getAccessToken = () => localStorage.getItem('accessToken');
+export const getAccessToken = () => localStorage.getItem('accessToken');
 const getRefreshToken = () => localStorage.getItem('refreshToken');
 
 export const setAccessToken = (token: string | null) => {
@@ -23,10 +23,33 @@ export const setAccessToken = (token: string | null) => {
   }
 };
 
+// Returns the token's `exp` claim in epoch ms, or null if the token can't be decoded.
+export const getTokenExpiry = (token: string | null): number | null => {
+  if (!token) return null;
+  try {
+    const payload = token.split('.')[1];
+    const json = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof json.exp === 'number' ? json.exp * 1000 : null;
+  } catch (_) {
+    return null;
+  }
+};
+
+type SessionExpiredListener = () => void;
+const sessionExpiredListeners = new Set<SessionExpiredListener>();
+
+// Lets the auth state react when the refresh token is rejected and the session is gone.
+export const onSessionExpired = (listener: SessionExpiredListener) => {
+  sessionExpiredListeners.add(listener);
+  return () => {
+    sessionExpiredListeners.delete(listener);
+  };
+};
+
 let isRefreshing = false;
 let refreshPromise: Promise<string | null> | null = null;
 
-const refreshAccessToken = async (): Promise<string | null> => {
+export const refreshAccessToken = async (): Promise<string | null> => {
   if (isRefreshing && refreshPromise) return refreshPromise;
 
   isRefreshing = true;
@@ -42,6 +65,7 @@ const refreshAccessToken = async (): Promise<string | null> => {
     } catch (error) {
       setAccessToken(null);
       localStorage.removeItem('refreshToken');
+      sessionExpiredListeners.forEach((listener) => listener());
       return null;
     } finally {
       isRefreshing = false;
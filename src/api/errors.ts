@@ -0,0 +1,61 @@
+import axios from 'axios';
+
+export type FieldErrors = Record<string, string>;
+
+// One error shape for everything the API layer throws, so pages can render failures the same way.
+export class ApiError extends Error {
+  status: number | null;
+  fieldErrors: FieldErrors;
+  debug?: unknown;
+
+  constructor(message: string, options: { status?: number | null; fieldErrors?: FieldErrors; debug?: unknown } = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = options.status ?? null;
+    this.fieldErrors = options.fieldErrors || {};
+    this.debug = options.debug;
+  }
+}
+
+// The backend reports validation failures either as an array (express-validator style) or as a field map.
+const readFieldErrors = (errors: unknown): FieldErrors => {
+  if (!errors) return {};
+  if (Array.isArray(errors)) {
+    return errors.reduce<FieldErrors>((acc, item: any) => {
+      const field = item?.field || item?.path || item?.param;
+      const message = item?.message || item?.msg;
+      if (field && message) acc[String(field)] = String(message);
+      return acc;
+    }, {});
+  }
+  if (typeof errors === 'object') {
+    return Object.entries(errors as Record<string, any>).reduce<FieldErrors>((acc, [field, value]) => {
+      const message = typeof value === 'string' ? value : value?.message;
+      if (message) acc[field] = String(message);
+      return acc;
+    }, {});
+  }
+  return {};
+};
+
+export const toApiError = (err: unknown, fallback = 'Request failed'): ApiError => {
+  if (err instanceof ApiError) return err;
+  if (axios.isAxiosError(err)) {
+    const data = err.response?.data as any;
+    if (!err.response) {
+      return new ApiError(err.message === 'Network Error' ? 'Network error — check your connection' : err.message || fallback);
+    }
+    return new ApiError(data?.message || data?.error || fallback, {
+      status: err.response.status,
+      fieldErrors: readFieldErrors(data?.errors || data?.fieldErrors),
+      debug: data?.debug
+    });
+  }
+  if (err instanceof Error) return new ApiError(err.message || fallback);
+  return new ApiError(fallback);
+};
+
+export const getErrorMessage = (err: unknown, fallback: string) => {
+  const apiError = toApiError(err, fallback);
+  return apiError.message || fallback;
+};
@@ -0,0 +1,15 @@
+export { moviesApi } from './movies';
+export type { MovieListParams, MoviePayload } from './movies';
+export { seriesApi } from './series';
+export type { EpisodeOrder, EpisodePayload, SeasonPayload, SeasonRenumbering, SeriesListParams, SeriesPayload } from './series';
+export { usersApi } from './users';
+export type { SubscriptionUpdate, UserListParams } from './users';
+export { analyticsApi } from './analytics';
+export type { AnalyticsRange, CohortParams, CohortPeriod, Granularity, SeriesParams } from './analytics';
+export { integrationsApi } from './integrations';
+export { omdbApi } from './omdb';
+export { metadataApi } from './metadata';
+export { ApiError, getErrorMessage, toApiError } from './errors';
+export type { FieldErrors } from './errors';
+export * from './schemas';
+export { patchQueries, queryClient, queryKeys } from './queries';
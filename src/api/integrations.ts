@@ -0,0 +1,34 @@
+import api from './client';
+import { toApiError } from './errors';
+import { request } from './request';
+import {
+  cloudinarySignatureSchema,
+  directUploadSchema,
+  integrationsHealthSchema,
+  streamVideoSchema,
+  videoDurationSchema
+} from './schemas';
+
+export const integrationsApi = {
+  health: () => request(integrationsHealthSchema, { method: 'GET', url: '/admin/integrations/health' }),
+  // The top-level health probe isn't wrapped in the usual `data` envelope.
+  apiStatus: async () => {
+    try {
+      const res = await api.get('/health');
+      return res.data?.status === 'ok';
+    } catch (err) {
+      throw toApiError(err, 'API unreachable');
+    }
+  },
+  createDirectUpload: (fileName: string, fileSize: number) =>
+    request(directUploadSchema, { method: 'POST', url: '/admin/cloudflare/direct-upload', data: { fileName, fileSize } }),
+  getStreamVideo: (videoId: string) =>
+    request(streamVideoSchema, { method: 'GET', url: `/admin/cloudflare/videos/${videoId}` }),
+  // Seconds, as reported by Cloudflare Stream.
+  getVideoDuration: async (videoId: string) => {
+    const data = await request(videoDurationSchema, { method: 'POST', url: '/admin/omdb/cloudflare-duration', data: { videoId } });
+    return data.duration;
+  },
+  getCloudinarySignature: (folder: string) =>
+    request(cloudinarySignatureSchema, { method: 'POST', url: '/admin/cloudinary/signature', data: { folder } })
+};
@@ -0,0 +1,7 @@
+import { request } from './request';
+import { taxonomySchema } from './schemas';
+
+export const metadataApi = {
+  // Genres, languages and maturity ratings shared by movies and series; managed on the backend.
+  taxonomy: () => request(taxonomySchema, { method: 'GET', url: '/admin/taxonomies' })
+};
@@ -0,0 +1,62 @@
+import { z } from 'zod';
+import { noCache, request, send } from './request';
+import { contentChangeSchema, imdbMovieSchema, movieListSchema, movieSchema, type MaturityRating, type Movie, type Poster } from './schemas';
+
+export interface MovieListParams {
+  page?: number;
+  limit?: number;
+  // Field name, prefixed with `-` for descending order.
+  sort?: string;
+  q?: string;
+}
+
+export type MoviePayload = {
+  title: string;
+  description: string;
+  genres: string[];
+  language: string;
+  releaseYear: number;
+  duration: number;
+  rating?: number;
+  poster: Poster;
+  trailerUrl?: string;
+  cloudflareVideoId: string;
+  maturityRating: MaturityRating;
+  isPremium: boolean;
+  publishAt?: string | null;
+} & Partial<
+  Pick<
+    Movie,
+    | 'imdbId'
+    | 'imdbRating'
+    | 'imdbLink'
+    | 'rated'
+    | 'released'
+    | 'runtime'
+    | 'director'
+    | 'writer'
+    | 'actors'
+    | 'plot'
+    | 'languages'
+    | 'country'
+    | 'awards'
+    | 'omdbPoster'
+    | 'ratings'
+  >
+>;
+
+export const moviesApi = {
+  list: (params: MovieListParams) =>
+    request(movieListSchema, { method: 'GET', url: '/admin/movies', params, headers: noCache }),
+  get: (id: string) => request(movieSchema, { method: 'GET', url: `/admin/movies/${id}`, headers: noCache }),
+  create: (payload: MoviePayload) => send({ method: 'POST', url: '/admin/movies', data: payload }),
+  update: (id: string, payload: Partial<MoviePayload>) => send({ method: 'PUT', url: `/admin/movies/${id}`, data: payload }),
+  remove: (id: string) => send({ method: 'DELETE', url: `/admin/movies/${id}` }),
+  history: (id: string) =>
+    request(z.array(contentChangeSchema).default([]), { method: 'GET', url: `/admin/movies/${id}/history`, headers: noCache }),
+  publish: (id: string, publishAt: string | null) =>
+    send({ method: 'PUT', url: `/admin/movies/${id}/publish`, data: { publishAt } }),
+  unpublish: (id: string) => send({ method: 'PUT', url: `/admin/movies/${id}/unpublish` }),
+  searchImdb: (query: string) =>
+    request(z.array(imdbMovieSchema).default([]), { method: 'GET', url: '/admin/search-imdb', params: { query } })
+};
@@ -0,0 +1,15 @@
+import { request } from './request';
+import { omdbSearchSchema, omdbSeasonsSchema, omdbSeriesSchema } from './schemas';
+
+export const omdbApi = {
+  searchSeries: async (query: string) => {
+    const data = await request(omdbSearchSchema, { method: 'GET', url: '/admin/omdb/search', params: { query, type: 'series' } });
+    return data.results;
+  },
+  getSeries: (omdbId: string) => request(omdbSeriesSchema, { method: 'GET', url: `/admin/omdb/series/${omdbId}` }),
+  // Every season with its episode listing; OMDB has one request per season, the backend gathers them.
+  getSeasons: async (omdbId: string) => {
+    const data = await request(omdbSeasonsSchema, { method: 'GET', url: `/admin/omdb/series/${omdbId}/seasons` });
+    return data.seasons;
+  }
+};
@@ -0,0 +1,77 @@
+import { QueryClient, type QueryKey } from '@tanstack/react-query';
+import type { AnalyticsRange, CohortParams, SeriesParams } from './analytics';
+import type { MovieListParams } from './movies';
+import type { SeriesListParams } from './series';
+import type { UserListParams } from './users';
+
+export const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      // Serve cached data immediately and revalidate in the background once it is this old.
+      staleTime: 30 * 1000,
+      refetchOnWindowFocus: true,
+      retry: 1
+    }
+  }
+});
+
+// Keys are hierarchical so a mutation can invalidate e.g. every movie list without touching details.
+export const queryKeys = {
+  movies: {
+    all: ['movies'] as const,
+    lists: () => [...queryKeys.movies.all, 'list'] as const,
+    list: (params: MovieListParams) => [...queryKeys.movies.lists(), params] as const,
+    detail: (id: string) => [...queryKeys.movies.all, 'detail', id] as const,
+    history: (id: string) => [...queryKeys.movies.detail(id), 'history'] as const
+  },
+  series: {
+    all: ['series'] as const,
+    lists: () => [...queryKeys.series.all, 'list'] as const,
+    list: (params: SeriesListParams) => [...queryKeys.series.lists(), params] as const,
+    detail: (id: string) => [...queryKeys.series.all, 'detail', id] as const
+  },
+  users: {
+    all: ['users'] as const,
+    lists: () => [...queryKeys.users.all, 'list'] as const,
+    list: (params: UserListParams) => [...queryKeys.users.lists(), params] as const,
+    detail: (id: string) => [...queryKeys.users.all, 'detail', id] as const,
+    subscriptionHistory: (id: string) => [...queryKeys.users.detail(id), 'subscription-history'] as const,
+    watchHistory: (id: string) => [...queryKeys.users.detail(id), 'watch-history'] as const,
+    sessions: (id: string) => [...queryKeys.users.detail(id), 'sessions'] as const,
+    notes: (id: string) => [...queryKeys.users.detail(id), 'notes'] as const
+  },
+  analytics: {
+    all: ['analytics'] as const,
+    dashboard: (range: AnalyticsRange) => [...queryKeys.analytics.all, 'dashboard', range] as const,
+    viewsPerDay: (params: SeriesParams) => [...queryKeys.analytics.all, 'views-per-day', params] as const,
+    userGrowth: (params: SeriesParams) => [...queryKeys.analytics.all, 'user-growth', params] as const,
+    contentDistribution: () => [...queryKeys.analytics.all, 'content-distribution'] as const,
+    genreDistribution: () => [...queryKeys.analytics.all, 'genre-distribution'] as const,
+    topContent: (range: AnalyticsRange) => [...queryKeys.analytics.all, 'top-content', range] as const,
+    recommendations: () => [...queryKeys.analytics.all, 'recommendations'] as const,
+    layout: () => [...queryKeys.analytics.all, 'layout'] as const,
+    live: () => [...queryKeys.analytics.all, 'live'] as const,
+    cohorts: (params: CohortParams) => [...queryKeys.analytics.all, 'cohorts', params] as const,
+    premiumChurn: (params: CohortParams) => [...queryKeys.analytics.all, 'premium-churn', params] as const,
+    title: (kind: 'movie' | 'series', id: string, params: SeriesParams) => [...queryKeys.analytics.all, kind, id, params] as const
+  },
+  metadata: {
+    all: ['metadata'] as const,
+    taxonomy: () => [...queryKeys.metadata.all, 'taxonomy'] as const,
+    // Every movie and series checked against the taxonomy, for the migration view.
+    audit: () => [...queryKeys.metadata.all, 'audit'] as const
+  },
+  integrations: {
+    health: ['integrations', 'health'] as const,
+    apiStatus: ['integrations', 'api-status'] as const
+  }
+};
+
+// Optimistically rewrites every cached query under `queryKey` and returns a function that restores the
+// previous data, for use as a mutation's onMutate context.
+export const patchQueries = async <T>(client: QueryClient, queryKey: QueryKey, update: (data: T) => T) => {
+  await client.cancelQueries({ queryKey });
+  const snapshot = client.getQueriesData<T>({ queryKey });
+  client.setQueriesData<T>({ queryKey }, (old) => (old ? update(old) : old));
+  return () => snapshot.forEach(([key, data]) => client.setQueryData(key, data));
+};
@@ -0,0 +1,33 @@
+import type { AxiosRequestConfig } from 'axios';
+import type { z } from 'zod';
+import api from './client';
+import { ApiError, toApiError } from './errors';
+
+// Sends a request through the shared client and validates the `data` envelope the backend wraps every
+// response in. A response that doesn't match the schema becomes an ApiError instead of blanking the page.
+export const request = async <S extends z.ZodTypeAny>(schema: S, config: AxiosRequestConfig): Promise<z.output<S>> => {
+  let body: any;
+  try {
+    const res = await api.request(config);
+    body = res.data;
+  } catch (err) {
+    throw toApiError(err);
+  }
+  const parsed = schema.safeParse(body?.data);
+  if (!parsed.success) {
+    console.error('[API] Unexpected response shape:', config.url, parsed.error.issues);
+    throw new ApiError(`Unexpected response from ${config.url}`, { debug: parsed.error.issues });
+  }
+  return parsed.data;
+};
+
+// For mutations whose response body the UI doesn't use.
+export const send = async (config: AxiosRequestConfig): Promise<void> => {
+  try {
+    await api.request(config);
+  } catch (err) {
+    throw toApiError(err);
+  }
+};
+
+export const noCache = { 'Cache-Control': 'no-cache' };
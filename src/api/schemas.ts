@@ -0,0 +1,579 @@
+import { z } from 'zod';
+
+// Schemas are deliberately lenient: unknown keys pass through and most fields are nullish (the backend
+// clears a value by sending null), so that only shape changes that would actually break a page
+// (missing lists, wrong types) are rejected.
+
+export const maturityRatingSchema = z.enum(['U', 'UA', 'A']);
+export type MaturityRating = z.infer<typeof maturityRatingSchema>;
+
+export const posterSchema = z.object({
+  vertical: z.string().default(''),
+  horizontal: z.string().default('')
+});
+export type Poster = z.infer<typeof posterSchema>;
+
+export const paginationSchema = z
+  .object({
+    total: z.number().nullish(),
+    page: z.number().nullish(),
+    limit: z.number().nullish(),
+    pages: z.number().nullish()
+  })
+  .passthrough();
+export type Pagination = z.infer<typeof paginationSchema>;
+
+const publishFields = {
+  isPublished: z.boolean().default(false),
+  publishAt: z.string().nullish(),
+  publishedAt: z.string().nullish()
+};
+
+export const movieSchema = z
+  .object({
+    _id: z.string(),
+    title: z.string(),
+    description: z.string().nullish(),
+    genres: z.array(z.string()).nullish(),
+    language: z.string().nullish(),
+    releaseYear: z.number().nullish(),
+    duration: z.number().nullish(),
+    rating: z.number().nullish(),
+    poster: posterSchema.nullish(),
+    trailerUrl: z.string().nullish(),
+    cloudflareVideoId: z.string().nullish(),
+    maturityRating: maturityRatingSchema.nullish(),
+    isPremium: z.boolean().default(false),
+    ...publishFields,
+    imdbId: z.string().nullish(),
+    imdbRating: z.number().nullish(),
+    imdbLink: z.string().nullish(),
+    rated: z.string().nullish(),
+    released: z.string().nullish(),
+    runtime: z.string().nullish(),
+    director: z.string().nullish(),
+    writer: z.string().nullish(),
+    actors: z.string().nullish(),
+    plot: z.string().nullish(),
+    languages: z.string().nullish(),
+    country: z.string().nullish(),
+    awards: z.string().nullish(),
+    omdbPoster: z.string().nullish(),
+    ratings: z.array(z.object({ source: z.string(), value: z.string() })).nullish(),
+    createdAt: z.string().nullish(),
+    updatedAt: z.string().nullish()
+  })
+  .passthrough();
+export type Movie = z.infer<typeof movieSchema>;
+
+export const movieListSchema = z
+  .object({
+    movies: z.array(movieSchema).default([]),
+    pagination: paginationSchema.nullish(),
+    total: z.number().nullish()
+  })
+  .passthrough();
+export type MovieList = z.infer<typeof movieListSchema>;
+
+// Staff-facing references to another admin come back either populated or as a bare id.
+const authorSchema = z
+  .union([z.string(), z.object({ _id: z.string().nullish(), email: z.string().nullish(), name: z.string().nullish() }).passthrough()])
+  .nullish();
+export type Author = z.infer<typeof authorSchema>;
+
+// One entry per field change, recorded by the backend on every update.
+export const contentChangeSchema = z
+  .object({
+    _id: z.string().nullish(),
+    field: z.string(),
+    oldValue: z.unknown().nullish(),
+    newValue: z.unknown().nullish(),
+    changedBy: authorSchema,
+    changedAt: z.string()
+  })
+  .passthrough();
+export type ContentChange = z.infer<typeof contentChangeSchema>;
+
+export const episodeSchema = z
+  .object({
+    _id: z.string().nullish(),
+    episodeNumber: z.number(),
+    title: z.string().default(''),
+    description: z.string().default(''),
+    duration: z.number().default(0),
+    cloudflareVideoId: z.string().default(''),
+    thumbnail: z.string().default(''),
+    airDate: z.string().nullish()
+  })
+  .passthrough();
+export type Episode = z.infer<typeof episodeSchema>;
+
+export const seasonSchema = z
+  .object({
+    _id: z.string().nullish(),
+    seasonNumber: z.number(),
+    title: z.string().default(''),
+    synopsis: z.string().default(''),
+    // Vertical (2:3) artwork; falls back to the series poster when empty.
+    poster: z.string().default(''),
+    // yyyy-mm-dd; seasons saved before this was a plain date hold a full ISO timestamp.
+    releaseDate: z.string().nullish(),
+    isPremium: z.boolean().default(false),
+    episodes: z.array(episodeSchema).default([])
+  })
+  .passthrough();
+export type Season = z.infer<typeof seasonSchema>;
+
+export const seriesSchema = z
+  .object({
+    _id: z.string(),
+    title: z.string(),
+    description: z.string().nullish(),
+    genres: z.array(z.string()).nullish(),
+    language: z.string().nullish(),
+    releaseYear: z.number().nullish(),
+    poster: posterSchema.nullish(),
+    maturityRating: maturityRatingSchema.nullish(),
+    isPremium: z.boolean().default(false),
+    ...publishFields,
+    // The OMDB/IMDB title the series was created from; seasons and episodes are imported from it.
+    imdbId: z.string().nullish(),
+    seasons: z.array(seasonSchema).nullish(),
+    createdAt: z.string().nullish(),
+    updatedAt: z.string().nullish()
+  })
+  .passthrough();
+export type Series = z.infer<typeof seriesSchema>;
+
+// Outcome of each item of a bulk create, matched to the request by its position.
+export const bulkResultSchema = z
+  .object({
+    results: z
+      .array(
+        z
+          .object({
+            index: z.number(),
+            ok: z.boolean(),
+            _id: z.string().nullish(),
+            message: z.string().nullish()
+          })
+          .passthrough()
+      )
+      .default([])
+  })
+  .passthrough();
+export type BulkResult = z.infer<typeof bulkResultSchema>['results'][number];
+
+// Create endpoints echo the new document; callers that need to follow up only rely on its id.
+export const createdSchema = z.object({ _id: z.string() }).passthrough();
+
+export const seriesListSchema = z
+  .object({
+    series: z.array(seriesSchema).default([]),
+    pagination: paginationSchema.nullish(),
+    total: z.number().nullish()
+  })
+  .passthrough();
+export type SeriesList = z.infer<typeof seriesListSchema>;
+
+export const subscriptionSchema = z
+  .object({
+    plan: z.string().default('FREE'),
+    status: z.string().default('ACTIVE'),
+    startDate: z.string().nullish(),
+    endDate: z.string().nullish(),
+    complimentary: z.boolean().nullish()
+  })
+  .passthrough();
+export type Subscription = z.infer<typeof subscriptionSchema>;
+
+export const adminUserSchema = z
+  .object({
+    _id: z.string(),
+    email: z.string(),
+    role: z.string(),
+    name: z.string().nullish(),
+    phone: z.string().nullish(),
+    country: z.string().nullish(),
+    isBlocked: z.boolean().nullish(),
+    subscription: subscriptionSchema.default({}),
+    lastLoginAt: z.string().nullish(),
+    lastActiveAt: z.string().nullish(),
+    createdAt: z.string().nullish(),
+    updatedAt: z.string().nullish()
+  })
+  .passthrough();
+export type AdminUser = z.infer<typeof adminUserSchema>;
+
+export const userListSchema = z
+  .object({
+    users: z.array(adminUserSchema).default([]),
+    pagination: paginationSchema.nullish(),
+    total: z.number().nullish()
+  })
+  .passthrough();
+export type UserList = z.infer<typeof userListSchema>;
+
+export const subscriptionEventSchema = z
+  .object({
+    _id: z.string().nullish(),
+    // e.g. CREATED, UPGRADED, DOWNGRADED, RENEWED, CANCELLED, EXPIRED
+    event: z.string(),
+    plan: z.string().nullish(),
+    previousPlan: z.string().nullish(),
+    status: z.string().nullish(),
+    amount: z.number().nullish(),
+    currency: z.string().nullish(),
+    note: z.string().nullish(),
+    createdAt: z.string()
+  })
+  .passthrough();
+export type SubscriptionEvent = z.infer<typeof subscriptionEventSchema>;
+
+export const watchHistoryItemSchema = z
+  .object({
+    _id: z.string().nullish(),
+    contentId: z.string().nullish(),
+    contentType: z.enum(['MOVIE', 'EPISODE']).catch('MOVIE'),
+    title: z.string().default(''),
+    seriesTitle: z.string().nullish(),
+    seasonNumber: z.number().nullish(),
+    episodeNumber: z.number().nullish(),
+    // Both in seconds.
+    progress: z.number().default(0),
+    duration: z.number().default(0),
+    completed: z.boolean().nullish(),
+    lastWatchedAt: z.string()
+  })
+  .passthrough();
+export type WatchHistoryItem = z.infer<typeof watchHistoryItemSchema>;
+
+export const userSessionSchema = z
+  .object({
+    _id: z.string(),
+    device: z.string().default('Unknown device'),
+    platform: z.string().nullish(),
+    browser: z.string().nullish(),
+    ip: z.string().nullish(),
+    location: z.string().nullish(),
+    createdAt: z.string().nullish(),
+    lastActiveAt: z.string().nullish()
+  })
+  .passthrough();
+export type UserSession = z.infer<typeof userSessionSchema>;
+
+export const supportNoteSchema = z
+  .object({
+    _id: z.string().nullish(),
+    body: z.string(),
+    author: authorSchema,
+    createdAt: z.string()
+  })
+  .passthrough();
+export type SupportNote = z.infer<typeof supportNoteSchema>;
+
+export const dashboardStatsSchema = z
+  .object({
+    totalUsers: z.number(),
+    activeSubscriptions: z.number(),
+    totalMovies: z.number(),
+    totalSeries: z.number(),
+    totalWatchTime: z.number(),
+    dailyActiveUsers: z.number()
+  })
+  .passthrough();
+export type DashboardStats = z.infer<typeof dashboardStatsSchema>;
+
+export const countPointSchema = z.object({ _id: z.string(), count: z.number() }).passthrough();
+export type CountPoint = z.infer<typeof countPointSchema>;
+
+export const viewsPerDaySchema = z.object({ viewsPerDay: z.array(countPointSchema).default([]) }).passthrough();
+export const userGrowthSchema = z.object({ userGrowth: z.array(countPointSchema).default([]) }).passthrough();
+export const genreDistributionSchema = z.object({ genreDistribution: z.array(countPointSchema).default([]) }).passthrough();
+
+export const contentDistributionSchema = z.object({ movies: z.number(), series: z.number() }).passthrough();
+export type ContentDistribution = z.infer<typeof contentDistributionSchema>;
+
+export const topItemSchema = z
+  .object({
+    _id: z.string().nullish(),
+    title: z.string(),
+    views: z.number().nullish(),
+    totalViews: z.number().nullish()
+  })
+  .passthrough();
+export type TopItem = z.infer<typeof topItemSchema>;
+
+export const topContentSchema = z
+  .object({
+    topMovies: z.array(topItemSchema).default([]),
+    topSeries: z.array(topItemSchema).default([])
+  })
+  .passthrough();
+export type TopContent = z.infer<typeof topContentSchema>;
+
+// Engagement figures shared by a whole title and each of its seasons/episodes.
+// `completionRate` is 0–1, `averageWatchTime` is in seconds.
+const engagementShape = {
+  views: z.number().default(0),
+  uniqueViewers: z.number().default(0),
+  completionRate: z.number().default(0),
+  averageWatchTime: z.number().default(0)
+};
+
+// Share of starting viewers still watching at `position`% of the runtime.
+export const dropOffPointSchema = z.object({ position: z.number(), retention: z.number() }).passthrough();
+export type DropOffPoint = z.infer<typeof dropOffPointSchema>;
+
+export const episodeAnalyticsSchema = z
+  .object({
+    _id: z.string().nullish(),
+    episodeNumber: z.number(),
+    title: z.string().default(''),
+    ...engagementShape
+  })
+  .passthrough();
+export type EpisodeAnalytics = z.infer<typeof episodeAnalyticsSchema>;
+
+export const seasonAnalyticsSchema = z
+  .object({
+    _id: z.string().nullish(),
+    seasonNumber: z.number(),
+    ...engagementShape,
+    episodes: z.array(episodeAnalyticsSchema).default([])
+  })
+  .passthrough();
+export type SeasonAnalytics = z.infer<typeof seasonAnalyticsSchema>;
+
+export const titleAnalyticsSchema = z
+  .object({
+    _id: z.string(),
+    title: z.string(),
+    // Seconds; for a series this is the average episode runtime the drop-off curve is based on.
+    runtime: z.number().nullish(),
+    ...engagementShape,
+    viewsOverTime: z.array(countPointSchema).default([]),
+    dropOff: z.array(dropOffPointSchema).default([]),
+    // Only present for series.
+    seasons: z.array(seasonAnalyticsSchema).default([])
+  })
+  .passthrough();
+export type TitleAnalytics = z.infer<typeof titleAnalyticsSchema>;
+
+export const cohortSchema = z
+  .object({
+    // Start date of the signup week/month.
+    _id: z.string(),
+    size: z.number(),
+    // Share of the cohort active in each period after signup; index 0 is the signup period itself.
+    retention: z.array(z.number()).default([]),
+    // Cohort members who moved from a free to a paid plan within the analysed window.
+    premiumConversions: z.number().default(0)
+  })
+  .passthrough();
+export type Cohort = z.infer<typeof cohortSchema>;
+
+export const cohortsSchema = z.object({ cohorts: z.array(cohortSchema).default([]) }).passthrough();
+
+export const churnPointSchema = z
+  .object({
+    _id: z.string(),
+    // Paying subscribers at the start of the period.
+    activeAtStart: z.number(),
+    churned: z.number()
+  })
+  .passthrough();
+export type ChurnPoint = z.infer<typeof churnPointSchema>;
+
+export const premiumChurnSchema = z.object({ churn: z.array(churnPointSchema).default([]) }).passthrough();
+
+export const liveTitleSchema = z
+  .object({
+    _id: z.string(),
+    title: z.string(),
+    contentType: z.enum(['MOVIE', 'SERIES']),
+    viewers: z.number()
+  })
+  .passthrough();
+export type LiveTitle = z.infer<typeof liveTitleSchema>;
+
+export const liveEventSchema = z
+  .object({
+    _id: z.string(),
+    type: z.enum(['SIGNUP', 'SUBSCRIPTION']),
+    userId: z.string().nullish(),
+    email: z.string().nullish(),
+    // Subscription events only, e.g. UPGRADED / CANCELLED.
+    event: z.string().nullish(),
+    plan: z.string().nullish(),
+    createdAt: z.string()
+  })
+  .passthrough();
+export type LiveEvent = z.infer<typeof liveEventSchema>;
+
+// One snapshot of the live activity feed; the stream and the polling endpoint both send this shape.
+export const liveActivitySchema = z
+  .object({
+    concurrentViewers: z.number(),
+    topTitles: z.array(liveTitleSchema).default([]),
+    recentEvents: z.array(liveEventSchema).default([]),
+    updatedAt: z.string()
+  })
+  .passthrough();
+export type LiveActivity = z.infer<typeof liveActivitySchema>;
+
+// Single-use and short-lived; exchanged for the live stream so no access token appears in a URL.
+export const streamTicketSchema = z.object({ ticket: z.string() }).passthrough();
+
+export const dashboardLayoutSchema = z
+  .object({
+    // In display order; `span` is the width in columns of a 12-column grid.
+    widgets: z.array(z.object({ id: z.string(), span: z.number() })).default([])
+  })
+  .passthrough();
+export type DashboardLayout = z.infer<typeof dashboardLayoutSchema>;
+
+export const recommendationSchema = z
+  .object({
+    _id: z.string().nullish(),
+    title: z.string(),
+    poster: posterSchema.partial().nullish()
+  })
+  .passthrough();
+export type Recommendation = z.infer<typeof recommendationSchema>;
+
+const integrationStatusSchema = z.object({ ok: z.boolean(), message: z.string().default('') });
+
+export const integrationsHealthSchema = z
+  .object({
+    cloudinary: integrationStatusSchema,
+    cloudflare: integrationStatusSchema
+  })
+  .passthrough();
+export type IntegrationsHealth = z.infer<typeof integrationsHealthSchema>;
+
+export const directUploadSchema = z.object({ uploadURL: z.string(), videoId: z.string() }).passthrough();
+export type DirectUpload = z.infer<typeof directUploadSchema>;
+
+export const streamVideoSchema = z
+  .object({
+    readyToStream: z.boolean().nullish(),
+    duration: z.number().nullish(),
+    status: z
+      .object({
+        state: z.string().nullish(),
+        pctComplete: z.union([z.string(), z.number()]).nullish(),
+        errorReasonText: z.string().nullish()
+      })
+      .passthrough()
+      .nullish()
+  })
+  .passthrough();
+export type StreamVideo = z.infer<typeof streamVideoSchema>;
+
+export const videoDurationSchema = z.object({ duration: z.number().default(0) }).passthrough();
+
+export const cloudinarySignatureSchema = z
+  .object({
+    signature: z.string(),
+    timestamp: z.union([z.string(), z.number()]),
+    apiKey: z.string(),
+    cloudName: z.string(),
+    folder: z.string().nullish()
+  })
+  .passthrough();
+export type CloudinarySignature = z.infer<typeof cloudinarySignatureSchema>;
+
+export const taxonomyLanguageSchema = z
+  .object({
+    // ISO 639-1 code; this is what titles store.
+    code: z.string(),
+    name: z.string(),
+    nativeName: z.string().nullish(),
+    // Other spellings found in older records and imports, e.g. the native-script name.
+    aliases: z.array(z.string()).default([])
+  })
+  .passthrough();
+export type TaxonomyLanguage = z.infer<typeof taxonomyLanguageSchema>;
+
+export const taxonomySchema = z
+  .object({
+    genres: z.array(z.string()).default([]),
+    languages: z.array(taxonomyLanguageSchema).default([]),
+    maturityRatings: z
+      .array(z.object({ value: maturityRatingSchema, label: z.string(), description: z.string().nullish() }).passthrough())
+      .default([]),
+    maxGenres: z.number().default(5)
+  })
+  .passthrough();
+export type Taxonomy = z.infer<typeof taxonomySchema>;
+
+// IMDB movie search results arrive already mapped to our movie fields by the backend.
+export const imdbMovieSchema = movieSchema
+  .omit({ _id: true, poster: true, isPremium: true, isPublished: true })
+  .extend({
+    year: z.union([z.string(), z.number()]).nullish(),
+    posterUrl: z.string().nullish(),
+    poster: z.string().nullish(),
+    genres: z.array(z.string()).nullish()
+  })
+  .passthrough();
+export type ImdbMovie = z.infer<typeof imdbMovieSchema>;
+
+export const omdbSearchResultSchema = z
+  .object({
+    id: z.string(),
+    title: z.string(),
+    startYear: z.union([z.string(), z.number()]).nullish(),
+    endYear: z.union([z.string(), z.number()]).nullish(),
+    poster: z.string().nullish(),
+    description: z.string().nullish()
+  })
+  .passthrough();
+export type OmdbSearchResult = z.infer<typeof omdbSearchResultSchema>;
+
+export const omdbSearchSchema = z.object({ results: z.array(omdbSearchResultSchema).default([]) }).passthrough();
+
+export const omdbSeriesSchema = z
+  .object({
+    title: z.string().nullish(),
+    plot: z.string().nullish(),
+    description: z.string().nullish(),
+    genres: z.array(z.string()).nullish(),
+    language: z.string().nullish(),
+    languages: z.array(z.string()).nullish(),
+    startYear: z.number().nullish(),
+    poster: z.string().nullish(),
+    posters: z.object({ vertical: z.string().nullish(), horizontal: z.string().nullish() }).nullish(),
+    contentRating: z.string().nullish()
+  })
+  .passthrough();
+export type OmdbSeries = z.infer<typeof omdbSeriesSchema>;
+
+export const omdbEpisodeSchema = z
+  .object({
+    episodeNumber: z.number(),
+    title: z.string().default(''),
+    plot: z.string().default(''),
+    // ISO date, or null when OMDB has none.
+    released: z.string().nullish(),
+    // Minutes.
+    runtime: z.number().nullish()
+  })
+  .passthrough();
+export type OmdbEpisode = z.infer<typeof omdbEpisodeSchema>;
+
+export const omdbSeasonSchema = z
+  .object({
+    seasonNumber: z.number(),
+    episodes: z.array(omdbEpisodeSchema).default([])
+  })
+  .passthrough();
+export type OmdbSeason = z.infer<typeof omdbSeasonSchema>;
+
+export const omdbSeasonsSchema = z
+  .object({
+    totalSeasons: z.number().nullish(),
+    seasons: z.array(omdbSeasonSchema).default([])
+  })
+  .passthrough();
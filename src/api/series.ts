@@ -0,0 +1,73 @@
+import { noCache, request, send } from './request';
+import { bulkResultSchema, createdSchema, seriesListSchema, seriesSchema, type MaturityRating, type Poster, type Season } from './schemas';
+
+export interface SeriesListParams {
+  page?: number;
+  limit?: number;
+  sort?: string;
+  q?: string;
+}
+
+export type SeriesPayload = {
+  title: string;
+  description: string;
+  genres: string[];
+  language: string;
+  releaseYear: number;
+  poster: Poster;
+  maturityRating: MaturityRating;
+  isPremium: boolean;
+  imdbId?: string;
+};
+
+export type EpisodePayload = {
+  episodeNumber: number;
+  title: string;
+  description: string;
+  // Minutes.
+  duration: number;
+  cloudflareVideoId: string;
+  thumbnail: string;
+  airDate?: string | null;
+};
+
+export type SeasonPayload = Pick<Season, 'seasonNumber' | 'title' | 'synopsis' | 'poster' | 'releaseDate' | 'isPremium'>;
+
+// Old season number -> new season number. Applied as one change on the server so swaps don't collide;
+// episodes move with their season and keep their ids, so watch history and links stay valid.
+export type SeasonRenumbering = Array<{ from: number; to: number }>;
+
+// The complete episode list of each listed season, in order. The server numbers them 1..n, moving any
+// episode that currently lives in another season; seasons not listed are left alone.
+export type EpisodeOrder = Array<{ seasonNumber: number; episodeIds: string[] }>;
+
+export const seriesApi = {
+  list: (params: SeriesListParams) =>
+    request(seriesListSchema, { method: 'GET', url: '/admin/series', params, headers: noCache }),
+  get: (id: string) => request(seriesSchema, { method: 'GET', url: `/admin/series/${id}`, headers: noCache }),
+  create: (payload: SeriesPayload) => request(createdSchema, { method: 'POST', url: '/admin/series', data: payload }),
+  update: (id: string, payload: Partial<SeriesPayload>) => send({ method: 'PUT', url: `/admin/series/${id}`, data: payload }),
+  remove: (id: string) => send({ method: 'DELETE', url: `/admin/series/${id}` }),
+  publish: (id: string, publishAt: string | null) =>
+    send({ method: 'PUT', url: `/admin/series/${id}/publish`, data: { publishAt } }),
+  unpublish: (id: string) => send({ method: 'PUT', url: `/admin/series/${id}/unpublish` }),
+  addSeason: (id: string, payload: Pick<SeasonPayload, 'seasonNumber'> & Partial<SeasonPayload>) =>
+    send({ method: 'POST', url: `/admin/series/${id}/seasons`, data: payload }),
+  updateSeason: (id: string, seasonNumber: number, payload: Partial<Omit<SeasonPayload, 'seasonNumber'>>) =>
+    send({ method: 'PUT', url: `/admin/series/${id}/seasons/${seasonNumber}`, data: payload }),
+  // Removes the season together with all of its episodes.
+  deleteSeason: (id: string, seasonNumber: number) => send({ method: 'DELETE', url: `/admin/series/${id}/seasons/${seasonNumber}` }),
+  renumberSeasons: (id: string, changes: SeasonRenumbering) =>
+    send({ method: 'PUT', url: `/admin/series/${id}/seasons/renumber`, data: { changes } }),
+  createEpisode: (id: string, seasonNumber: number, payload: EpisodePayload) =>
+    send({ method: 'POST', url: `/admin/series/${id}/seasons/${seasonNumber}/episodes`, data: payload }),
+  // Creates every valid episode it can and reports the rest; one failure doesn't roll back the batch.
+  createEpisodes: (id: string, seasonNumber: number, episodes: EpisodePayload[]) =>
+    request(bulkResultSchema, { method: 'POST', url: `/admin/series/${id}/seasons/${seasonNumber}/episodes/bulk`, data: { episodes } }),
+  updateEpisode: (id: string, seasonNumber: number, episodeId: string, payload: EpisodePayload) =>
+    send({ method: 'PUT', url: `/admin/series/${id}/seasons/${seasonNumber}/episodes/${episodeId}`, data: payload }),
+  reorderEpisodes: (id: string, seasons: EpisodeOrder) =>
+    send({ method: 'PUT', url: `/admin/series/${id}/episodes/order`, data: { seasons } }),
+  deleteEpisode: (id: string, seasonNumber: number, episodeId: string) =>
+    send({ method: 'DELETE', url: `/admin/series/${id}/seasons/${seasonNumber}/episodes/${episodeId}` })
+};
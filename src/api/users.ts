@@ -0,0 +1,65 @@
+import { z } from 'zod';
+import { noCache, request, send } from './request';
+import {
+  adminUserSchema,
+  subscriptionEventSchema,
+  supportNoteSchema,
+  userListSchema,
+  userSessionSchema,
+  watchHistoryItemSchema
+} from './schemas';
+
+export interface UserListParams {
+  page?: number;
+  limit?: number;
+  // Field name, prefixed with `-` for descending order.
+  sort?: string;
+  // Matches email prefix or an exact user ID.
+  q?: string;
+  role?: string;
+  plan?: string;
+  status?: string;
+  blocked?: boolean;
+}
+
+export interface SubscriptionUpdate {
+  plan: string;
+  status: string;
+  startDate?: string | null;
+  endDate?: string | null;
+  // Free of charge for the period; billing resumes (or the plan lapses) at endDate.
+  complimentary?: boolean;
+  // Required for the audit trail; stored with the subscription history entry the backend records.
+  reason: string;
+}
+
+export const usersApi = {
+  list: (params: UserListParams) =>
+    request(userListSchema, { method: 'GET', url: '/admin/users', params, headers: noCache }),
+  // The backend flips the current state; there is no explicit block/unblock.
+  toggleBlock: (id: string) => send({ method: 'PUT', url: `/admin/users/${id}/block` }),
+  updateSubscription: (id: string, subscription: SubscriptionUpdate) =>
+    send({ method: 'PUT', url: `/admin/users/${id}/subscription`, data: subscription }),
+  remove: (id: string) => send({ method: 'DELETE', url: `/admin/users/${id}` }),
+  get: (id: string) => request(adminUserSchema, { method: 'GET', url: `/admin/users/${id}`, headers: noCache }),
+  subscriptionHistory: (id: string) =>
+    request(z.array(subscriptionEventSchema).default([]), {
+      method: 'GET',
+      url: `/admin/users/${id}/subscription-history`,
+      headers: noCache
+    }),
+  watchHistory: (id: string, limit = 50) =>
+    request(z.array(watchHistoryItemSchema).default([]), {
+      method: 'GET',
+      url: `/admin/users/${id}/watch-history`,
+      params: { limit },
+      headers: noCache
+    }),
+  sessions: (id: string) =>
+    request(z.array(userSessionSchema).default([]), { method: 'GET', url: `/admin/users/${id}/sessions`, headers: noCache }),
+  // Signs the device out by invalidating that session's refresh token.
+  revokeSession: (id: string, sessionId: string) => send({ method: 'DELETE', url: `/admin/users/${id}/sessions/${sessionId}` }),
+  notes: (id: string) =>
+    request(z.array(supportNoteSchema).default([]), { method: 'GET', url: `/admin/users/${id}/notes`, headers: noCache }),
+  addNote: (id: string, body: string) => send({ method: 'POST', url: `/admin/users/${id}/notes`, data: { body } })
+};
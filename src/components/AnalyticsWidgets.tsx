@@ -0,0 +1,44 @@
+import React from 'react';
+import { Paper, Stack, Typography } from '@mui/material';
+import type { CountPoint } from '../api';
+import ExportButton, { type ExportColumn } from './ExportButton';
+
+export const countColumns = (label: string, countLabel: string): ExportColumn<CountPoint>[] => [
+  { header: label, value: (row) => row._id },
+  { header: countLabel, value: (row) => row.count }
+];
+
+// Chart title with a download menu for the data behind it.
+export const ChartHeader = <T,>({ title, filename, columns, rows }: { title: string; filename: string; columns: ExportColumn<T>[]; rows: T[] }) => (
+  <Stack direction="row" justifyContent="space-between" alignItems="center">
+    <Typography variant="h6">{title}</Typography>
+    <ExportButton compact filename={filename} columns={columns} loadRows={() => rows} disabled={!rows.length} />
+  </Stack>
+);
+
+const Delta: React.FC<{ value: number; previous: number }> = ({ value, previous }) => {
+  if (!previous) return <Typography variant="caption" color="text.secondary">no data for previous period</Typography>;
+  const pct = ((value - previous) / previous) * 100;
+  const color = pct > 0 ? 'success.main' : pct < 0 ? 'error.main' : 'text.secondary';
+  return (
+    <Typography variant="caption" sx={{ color }}>
+      {pct > 0 ? '▲' : pct < 0 ? '▼' : '•'} {Math.abs(pct).toFixed(1)}% vs previous period
+    </Typography>
+  );
+};
+
+interface StatCardProps {
+  title: string;
+  value?: number;
+  // Shows a percentage change when given.
+  previous?: number;
+  format?: (value: number) => string;
+}
+
+export const StatCard: React.FC<StatCardProps> = ({ title, value, previous, format }) => (
+  <Paper sx={{ p: 2 }}>
+    <Typography variant="body2" color="text.secondary">{title}</Typography>
+    <Typography variant="h5" fontWeight={600}>{value === undefined ? '--' : format ? format(value) : value}</Typography>
+    {value !== undefined && previous !== undefined && <Delta value={value} previous={previous} />}
+  </Paper>
+);
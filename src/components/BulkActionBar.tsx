@@ -0,0 +1,152 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Alert, Box, Button, Checkbox, LinearProgress, Paper, Stack, Typography } from '@mui/material';
+import { getErrorMessage } from '../api';
+
+export interface BulkFailure {
+  id: string;
+  label: string;
+  message: string;
+}
+
+interface BulkOptions<T> {
+  getLabel: (row: T) => string;
+  onComplete: () => Promise<unknown>;
+}
+
+export const useBulkActions = <T extends { _id: string }>(rows: T[], { getLabel, onComplete }: BulkOptions<T>) => {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [failures, setFailures] = useState<BulkFailure[]>([]);
+
+  // Drop selections that are no longer visible (page change, search, delete).
+  useEffect(() => {
+    setSelected((prev) => {
+      const ids = new Set(rows.map((row) => row._id));
+      const next = new Set([...prev].filter((id) => ids.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [rows]);
+
+  const selectedRows = useMemo(() => rows.filter((row) => selected.has(row._id)), [rows, selected]);
+  const allSelected = rows.length > 0 && selected.size === rows.length;
+  const someSelected = selected.size > 0 && !allSelected;
+
+  const toggle = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelected(allSelected ? new Set() : new Set(rows.map((row) => row._id)));
+  };
+
+  const clear = () => setSelected(new Set());
+
+  // Runs the action for each selected row one at a time so a large selection doesn't flood the API,
+  // then refreshes the table once regardless of how many items failed.
+  const run = async (action: (row: T) => Promise<void>) => {
+    const targets = selectedRows;
+    if (!targets.length) return;
+    setRunning(true);
+    setFailures([]);
+    setProgress({ done: 0, total: targets.length });
+    const failed: BulkFailure[] = [];
+    for (const row of targets) {
+      try {
+        await action(row);
+      } catch (err) {
+        failed.push({ id: row._id, label: getLabel(row), message: getErrorMessage(err, 'Failed') });
+      }
+      setProgress((prev) => ({ ...prev, done: prev.done + 1 }));
+    }
+    setFailures(failed);
+    setSelected(new Set(failed.map((f) => f.id)));
+    setRunning(false);
+    await onComplete();
+  };
+
+  return {
+    selected,
+    selectedRows,
+    allSelected,
+    someSelected,
+    toggle,
+    toggleAll,
+    clear,
+    run,
+    running,
+    progress,
+    failures,
+    dismissFailures: () => setFailures([])
+  };
+};
+
+// The bar and checkboxes only read selection state, so they accept any row type.
+export type BulkActions<T extends { _id: string } = { _id: string }> = ReturnType<typeof useBulkActions<T>>;
+
+export const SelectAllCheckbox: React.FC<{ bulk: BulkActions }> = ({ bulk }) => (
+  <Checkbox
+    size="small"
+    checked={bulk.allSelected}
+    indeterminate={bulk.someSelected}
+    onChange={bulk.toggleAll}
+    disabled={bulk.running}
+  />
+);
+
+export const RowCheckbox: React.FC<{ bulk: BulkActions; id: string }> = ({ bulk, id }) => (
+  <Checkbox size="small" checked={bulk.selected.has(id)} onChange={() => bulk.toggle(id)} disabled={bulk.running} />
+);
+
+interface BulkActionBarProps {
+  bulk: BulkActions;
+  children: React.ReactNode;
+}
+
+const BulkActionBar: React.FC<BulkActionBarProps> = ({ bulk, children }) => {
+  const { selected, running, progress, failures } = bulk;
+  if (!selected.size && !running && !failures.length) return null;
+
+  return (
+    <Stack spacing={1}>
+      {(selected.size > 0 || running) && (
+        <Paper sx={{ p: 1.5, bgcolor: '#e8f0ff' }}>
+          <Stack direction="row" spacing={1} alignItems="center" flexWrap="wrap" useFlexGap>
+            <Typography variant="body2" sx={{ fontWeight: 600, mr: 1 }}>
+              {running ? `Processing ${progress.done}/${progress.total}…` : `${selected.size} selected`}
+            </Typography>
+            {children}
+            <Box sx={{ flex: 1 }} />
+            <Button size="small" onClick={bulk.clear} disabled={running}>Clear selection</Button>
+          </Stack>
+          {running && (
+            <LinearProgress
+              variant="determinate"
+              value={progress.total ? (progress.done / progress.total) * 100 : 0}
+              sx={{ mt: 1 }}
+            />
+          )}
+        </Paper>
+      )}
+      {failures.length > 0 && (
+        <Alert severity="error" onClose={bulk.dismissFailures}>
+          <Typography variant="body2" sx={{ fontWeight: 600 }}>
+            {failures.length} of {progress.total} item(s) failed — they are still selected so you can retry.
+          </Typography>
+          {failures.map((f) => (
+            <Typography key={f.id} variant="caption" sx={{ display: 'block' }}>
+              • {f.label}: {f.message}
+            </Typography>
+          ))}
+        </Alert>
+      )}
+    </Stack>
+  );
+};
+
+export default BulkActionBar;
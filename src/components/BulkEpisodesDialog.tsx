@@ -0,0 +1,394 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  LinearProgress,
+  Paper,
+  Stack,
+  Tab,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Tabs,
+  TextField,
+  Typography
+} from '@mui/material';
+import { getErrorMessage, integrationsApi, type BulkResult, type EpisodePayload } from '../api';
+import FileDropZone from './FileDropZone';
+import { normalizeHeader, parseCsv, toNumber } from './ImportWizard';
+
+// The client's completeness check: what an episode needs before it can play. Every editor enforces it,
+// and the episode list flags saved episodes, such as OMDB skeletons, that still miss something.
+export const episodeMissingFields = (episode: EpisodePayload) => {
+  const missing: string[] = [];
+  if (!episode.title) missing.push('title');
+  if (!episode.description) missing.push('description');
+  if (!episode.duration) missing.push('duration');
+  if (!episode.cloudflareVideoId) missing.push('Cloudflare Video ID');
+  if (!episode.thumbnail) missing.push('thumbnail');
+  return missing;
+};
+
+// Cloudflare rate-limits the duration lookup; a handful at a time is still far faster than one by one.
+const DURATION_CONCURRENCY = 5;
+
+const COLUMN_ALIASES: Record<keyof EpisodePayload, string[]> = {
+  episodeNumber: ['number', 'episode', 'episodenumber', 'ep', 'no'],
+  title: ['title', 'name'],
+  description: ['description', 'synopsis', 'summary'],
+  cloudflareVideoId: ['videoid', 'cloudflarevideoid', 'video', 'cloudflareid', 'streamid'],
+  thumbnail: ['thumbnail', 'thumbnailurl', 'image', 'still'],
+  duration: ['duration', 'minutes', 'runtime'],
+  airDate: ['airdate', 'aired', 'released', 'date']
+};
+
+// Cloudflare Stream video UIDs are 32 hex characters.
+const STREAM_ID = /^[a-f0-9]{32}$/i;
+
+type DurationState = 'given' | 'pending' | 'fetched' | 'failed';
+
+interface BulkRow {
+  key: number;
+  episode: EpisodePayload;
+  duration: DurationState;
+  result?: 'created' | 'failed';
+  failure?: string;
+}
+
+const toRows = (cells: string[][], columns: Array<keyof EpisodePayload | null>, startNumber: number): BulkRow[] =>
+  cells.map((row, index) => {
+    const value = (key: keyof EpisodePayload) => {
+      const col = columns.indexOf(key);
+      return col >= 0 ? (row[col] ?? '').trim() : '';
+    };
+    const episodeNumber = toNumber(value('episodeNumber'), startNumber + index);
+    const duration = toNumber(value('duration'));
+    const cloudflareVideoId = value('cloudflareVideoId');
+    const airDate = new Date(value('airDate'));
+    return {
+      key: index,
+      episode: {
+        episodeNumber,
+        title: value('title') || `Episode ${episodeNumber}`,
+        description: value('description'),
+        cloudflareVideoId,
+        thumbnail: value('thumbnail'),
+        duration,
+        airDate: value('airDate') && !Number.isNaN(airDate.getTime()) ? airDate.toISOString() : null
+      },
+      // Without a video there is nothing to look up; the row is flagged for its missing ID instead.
+      duration: duration ? 'given' : cloudflareVideoId ? 'pending' : 'failed'
+    };
+  });
+
+// A CSV with a header row, or lines pasted straight from a spreadsheet / a plain list of video IDs.
+// Without a recognisable header, columns are read as: video ID, title, description, thumbnail.
+const parseInput = (text: string, startNumber: number): BulkRow[] => {
+  const clean = text.replace(/^\uFEFF/, '').trim();
+  if (!clean) return [];
+  const tabbed = clean.includes('\t');
+  const cells = tabbed ? clean.split(/\r?\n/).map((line) => line.split('\t')) : parseCsv(clean);
+  const header = cells[0].map((name) => {
+    const key = (Object.keys(COLUMN_ALIASES) as Array<keyof EpisodePayload>).find((k) => COLUMN_ALIASES[k].includes(normalizeHeader(name)));
+    return key ?? null;
+  });
+  if (header.includes('cloudflareVideoId')) return toRows(cells.slice(1), header, startNumber);
+  // A bare list of IDs may also be comma- or space-separated on a single line.
+  const rows = cells.every((row) => row.every((cell) => STREAM_ID.test(cell.trim())))
+    ? clean.split(/[\s,]+/).filter(Boolean).map((id) => [id])
+    : cells;
+  return toRows(rows, ['cloudflareVideoId', 'title', 'description', 'thumbnail'], startNumber);
+};
+
+const mapWithConcurrency = async <T,>(items: T[], limit: number, fn: (item: T) => Promise<void>) => {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) await fn(items[next++]);
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+};
+
+interface BulkEpisodesDialogProps {
+  open: boolean;
+  seasonNumber: number;
+  // Episode numbers already used in the season.
+  existingNumbers: number[];
+  onClose: () => void;
+  onCreate: (episodes: EpisodePayload[]) => Promise<BulkResult[]>;
+  // Called once after a run that created at least one episode.
+  onCreated: () => void;
+}
+
+const BulkEpisodesDialog: React.FC<BulkEpisodesDialogProps> = ({ open, seasonNumber, existingNumbers, onClose, onCreate, onCreated }) => {
+  // Bumped whenever the rows are replaced or the dialog goes away, so lookups still in flight are dropped.
+  const lookupRef = useRef(0);
+  const [source, setSource] = useState<'paste' | 'csv'>('paste');
+  const [text, setText] = useState('');
+  const [rows, setRows] = useState<BulkRow[]>([]);
+  const [step, setStep] = useState<'input' | 'preview' | 'done'>('input');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const startNumber = Math.max(0, ...existingNumbers) + 1;
+
+  const rowErrors = (row: BulkRow) => {
+    const errors = episodeMissingFields(row.episode).map((field) => `missing ${field}`);
+    const { episodeNumber, cloudflareVideoId } = row.episode;
+    if (!Number.isInteger(episodeNumber) || episodeNumber < 1) errors.push('invalid number');
+    else if (existingNumbers.includes(episodeNumber)) errors.push(`episode ${episodeNumber} already exists`);
+    else if (rows.some((other) => other.key !== row.key && other.episode.episodeNumber === episodeNumber)) errors.push('duplicate number');
+    if (cloudflareVideoId && rows.some((other) => other.key !== row.key && other.episode.cloudflareVideoId === cloudflareVideoId)) {
+      errors.push('duplicate video');
+    }
+    return errors;
+  };
+
+  const pending = rows.filter((row) => !row.result);
+  const ready = pending.filter((row) => !rowErrors(row).length);
+  const created = rows.filter((row) => row.result === 'created').length;
+  const fetching = rows.some((row) => row.duration === 'pending');
+
+  useEffect(() => () => { lookupRef.current += 1; }, []);
+
+  const reset = () => {
+    lookupRef.current += 1;
+    setText('');
+    setRows([]);
+    setStep('input');
+    setError('');
+  };
+
+  const close = () => {
+    if (busy) return;
+    reset();
+    onClose();
+  };
+
+  const updateEpisode = (key: number, changes: Partial<EpisodePayload>) =>
+    setRows((prev) => prev.map((row) => (row.key === key ? { ...row, episode: { ...row.episode, ...changes } } : row)));
+
+  // Looked up once per video ID; the result fills every row still waiting on that video.
+  const fetchDurations = (videoIds: string[]) => {
+    const lookup = ++lookupRef.current;
+    const current = () => lookupRef.current === lookup;
+    return mapWithConcurrency(videoIds, DURATION_CONCURRENCY, async (videoId) => {
+      if (!current()) return;
+      const seconds = await integrationsApi.getVideoDuration(videoId).catch(() => 0);
+      if (!current()) return;
+      setRows((prev) =>
+        prev.map((row) =>
+          row.duration === 'pending' && row.episode.cloudflareVideoId === videoId
+            ? // Minutes, rounded up, as in the single-episode form.
+              { ...row, duration: seconds ? 'fetched' : 'failed', episode: { ...row.episode, duration: Math.ceil(seconds / 60) } }
+            : row
+        )
+      );
+    });
+  };
+
+  const buildPreview = (input: string) => {
+    setError('');
+    const parsed = parseInput(input, startNumber);
+    if (!parsed.length) {
+      setError('Nothing to add: paste at least one video ID or choose a CSV file');
+      return;
+    }
+    setRows(parsed);
+    setStep('preview');
+    fetchDurations([...new Set(parsed.filter((row) => row.duration === 'pending').map((row) => row.episode.cloudflareVideoId))]);
+  };
+
+  const handleFile = async (file: File) => {
+    try {
+      buildPreview(await file.text());
+    } catch (err) {
+      setError(getErrorMessage(err, 'Could not read the file'));
+    }
+  };
+
+  const runCreate = async () => {
+    setBusy(true);
+    setError('');
+    try {
+      const results = await onCreate(ready.map((row) => row.episode));
+      const byIndex = new Map(results.map((result) => [result.index, result]));
+      const outcome = new Map(
+        ready.map((row, index) => {
+          const result = byIndex.get(index);
+          return [row.key, result?.ok ? { result: 'created' as const } : { result: 'failed' as const, failure: result?.message || 'Not created' }];
+        })
+      );
+      setRows((prev) => prev.map((row) => ({ ...row, ...outcome.get(row.key) })));
+      setStep('done');
+      if (results.some((result) => result.ok)) onCreated();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to create episodes'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={close} maxWidth="lg" fullWidth>
+      <DialogTitle>Bulk add episodes · Season {seasonNumber}</DialogTitle>
+      <DialogContent sx={{ display: 'grid', gap: 2 }}>
+        {error && <Alert severity="error">{error}</Alert>}
+
+        {step === 'input' && (
+          <>
+            <Tabs value={source} onChange={(_, value) => setSource(value)}>
+              <Tab value="paste" label="Paste video IDs" />
+              <Tab value="csv" label="Upload CSV" />
+            </Tabs>
+            {source === 'paste' ? (
+              <TextField
+                label="Cloudflare video IDs"
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                multiline
+                minRows={8}
+                helperText={`One per line, numbered from ${startNumber}. Rows copied from a spreadsheet also work: video ID, title, description, thumbnail URL.`}
+              />
+            ) : (
+              <FileDropZone
+                accept=".csv,text/csv"
+                label="Drop a CSV file here, or click to choose one"
+                hint="Header row with: number, title, description, video ID, thumbnail (duration optional)"
+                onFile={handleFile}
+              />
+            )}
+          </>
+        )}
+
+        {step !== 'input' && (
+          <Stack spacing={1}>
+            <Stack direction="row" spacing={1} alignItems="center">
+              {step === 'preview' && <Chip size="small" color="success" label={`${ready.length} ready`} />}
+              {step === 'preview' && (
+                <Chip size="small" color={pending.length - ready.length ? 'error' : 'default'} label={`${pending.length - ready.length} with errors`} />
+              )}
+              {step === 'done' && <Chip size="small" color="success" label={`${created} created`} />}
+              {step === 'done' && rows.length - created > 0 && <Chip size="small" color="error" label={`${rows.length - created} not created`} />}
+              {fetching && <Typography variant="body2" color="text.secondary">Fetching durations…</Typography>}
+            </Stack>
+            {(busy || fetching) && <LinearProgress />}
+            <Paper variant="outlined" sx={{ maxHeight: 460, overflow: 'auto' }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell width={90}>#</TableCell>
+                    <TableCell>Title / description</TableCell>
+                    <TableCell>Video ID</TableCell>
+                    <TableCell width={110}>Duration</TableCell>
+                    <TableCell>Thumbnail URL</TableCell>
+                    <TableCell>Status</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {rows.map((row) => {
+                    const errors = row.result ? [] : rowErrors(row);
+                    const locked = step === 'done' || busy;
+                    return (
+                      <TableRow key={row.key}>
+                        <TableCell>
+                          <TextField
+                            size="small"
+                            type="number"
+                            value={row.episode.episodeNumber}
+                            onChange={(e) => updateEpisode(row.key, { episodeNumber: Number(e.target.value) })}
+                            disabled={locked}
+                          />
+                        </TableCell>
+                        <TableCell sx={{ minWidth: 240 }}>
+                          <Stack spacing={0.5}>
+                            <TextField
+                              size="small"
+                              placeholder="Title"
+                              value={row.episode.title}
+                              onChange={(e) => updateEpisode(row.key, { title: e.target.value })}
+                              disabled={locked}
+                            />
+                            <TextField
+                              size="small"
+                              placeholder="Description"
+                              value={row.episode.description}
+                              onChange={(e) => updateEpisode(row.key, { description: e.target.value })}
+                              multiline
+                              maxRows={3}
+                              disabled={locked}
+                            />
+                          </Stack>
+                        </TableCell>
+                        <TableCell sx={{ fontFamily: 'monospace', fontSize: 12, wordBreak: 'break-all' }}>
+                          {row.episode.cloudflareVideoId || '—'}
+                        </TableCell>
+                        <TableCell>
+                          {row.duration === 'pending' ? (
+                            <CircularProgress size={16} />
+                          ) : (
+                            <TextField
+                              size="small"
+                              type="number"
+                              value={row.episode.duration}
+                              onChange={(e) => updateEpisode(row.key, { duration: Number(e.target.value) })}
+                              helperText={row.duration === 'failed' ? 'Lookup failed' : 'min'}
+                              error={row.duration === 'failed' && !row.episode.duration}
+                              disabled={locked}
+                            />
+                          )}
+                        </TableCell>
+                        <TableCell sx={{ minWidth: 200 }}>
+                          <TextField
+                            size="small"
+                            placeholder="https://…"
+                            value={row.episode.thumbnail}
+                            onChange={(e) => updateEpisode(row.key, { thumbnail: e.target.value.trim() })}
+                            fullWidth
+                            disabled={locked}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          {row.result === 'created' && <Chip size="small" color="success" label="Created" />}
+                          {row.result === 'failed' && <Typography variant="caption" color="error">{row.failure}</Typography>}
+                          {!row.result && (errors.length ? (
+                            <Typography variant="caption" color="error">{errors.join('; ')}</Typography>
+                          ) : (
+                            <Chip size="small" variant="outlined" label={step === 'done' ? 'Skipped' : 'Ready'} />
+                          ))}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </Paper>
+          </Stack>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {step === 'preview' && <Button onClick={reset} disabled={busy}>Start over</Button>}
+        <Box sx={{ flex: 1 }} />
+        <Button onClick={close} disabled={busy}>{step === 'done' ? 'Done' : 'Cancel'}</Button>
+        {step === 'input' && source === 'paste' && (
+          <Button variant="contained" onClick={() => buildPreview(text)}>Preview</Button>
+        )}
+        {step === 'preview' && (
+          <Button variant="contained" onClick={runCreate} disabled={busy || fetching || !ready.length}>
+            {busy ? 'Creating…' : `Create ${ready.length} episode${ready.length === 1 ? '' : 's'}`}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default BulkEpisodesDialog;
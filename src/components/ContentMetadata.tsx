@@ -0,0 +1,319 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Alert, Autocomplete, Box, Button, CircularProgress, MenuItem, TextField, type TextFieldProps } from '@mui/material';
+import {
+  getErrorMessage,
+  metadataApi,
+  queryKeys,
+  taxonomySchema,
+  type MaturityRating,
+  type MoviePayload,
+  type Poster,
+  type Taxonomy,
+  type TaxonomyLanguage
+} from '../api';
+import ImageUploader from './ImageUploader';
+
+// The descriptive fields movies and series have in common.
+export type ContentMetadata = Pick<MoviePayload, 'title' | 'description' | 'genres' | 'language' | 'releaseYear' | 'poster' | 'maturityRating'>;
+
+// Lets the selects render while the taxonomy loads. Forms stay disabled until `ready`, and nothing is
+// validated against it, since every value would read as invalid against empty lists.
+const EMPTY_TAXONOMY: Taxonomy = taxonomySchema.parse({});
+
+export const useTaxonomy = () => {
+  const query = useQuery({ queryKey: queryKeys.metadata.taxonomy(), queryFn: metadataApi.taxonomy, staleTime: Infinity });
+  return { taxonomy: query.data ?? EMPTY_TAXONOMY, ready: !!query.data, error: query.error, retry: () => query.refetch() };
+};
+
+export type TaxonomyState = ReturnType<typeof useTaxonomy>;
+
+// Shown in place of the usual form errors until the taxonomy is available.
+export const TaxonomyStatus: React.FC<{ state: TaxonomyState }> = ({ state }) => {
+  if (state.ready) return null;
+  if (state.error) {
+    return (
+      <Alert severity="error" action={<Button color="inherit" size="small" onClick={state.retry}>Retry</Button>}>
+        {getErrorMessage(state.error, 'Failed to load genres, languages and ratings')} — saving is disabled until they load.
+      </Alert>
+    );
+  }
+  return <Alert severity="info" icon={<CircularProgress size={18} />}>Loading genres, languages and ratings…</Alert>;
+};
+
+const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export const findLanguage = (value: string, taxonomy: Taxonomy): TaxonomyLanguage | undefined =>
+  value.trim()
+    ? taxonomy.languages.find((language) =>
+        [language.code, language.name, language.nativeName ?? '', ...language.aliases].some((name) => name && sameText(name, value))
+      )
+    : undefined;
+
+// Both resolve case-insensitively; unknown values pass through so validation can flag them.
+export const matchLanguage = (value: string, taxonomy: Taxonomy) => findLanguage(value, taxonomy)?.code || value.trim();
+export const matchGenre = (value: string, taxonomy: Taxonomy) => taxonomy.genres.find((genre) => sameText(genre, value)) || value.trim();
+
+export const languageLabel = (value: string | null | undefined, taxonomy: Taxonomy) => {
+  const language = findLanguage(value || '', taxonomy);
+  if (!language) return value || '';
+  return language.nativeName && language.nativeName !== language.name ? `${language.name} (${language.nativeName})` : language.name;
+};
+
+// Genres from an outside catalogue (IMDB, OMDB) reduced to the ones we carry.
+export const knownGenres = (genres: string[], taxonomy: Taxonomy) =>
+  [...new Set(genres.map((genre) => matchGenre(genre, taxonomy)))].filter((genre) => taxonomy.genres.includes(genre)).slice(0, taxonomy.maxGenres);
+
+export interface ContentValidationError {
+  message: string;
+  fieldErrors: Record<string, string>;
+}
+
+// `missing` reports an empty required field; `invalid` a value the taxonomy doesn't accept. Invalid values
+// are only checked once nothing is missing, so the editor deals with one kind of problem at a time.
+export interface ContentRule<T> {
+  // Key in `fieldErrors`, matching the form control that shows it.
+  field: string;
+  // How the field reads in the "Missing required" summary; rules may share one.
+  label: string;
+  missing?: (form: T) => string | null;
+  invalid?: (form: T, taxonomy: Taxonomy) => string | null;
+}
+
+// Returns null when the form can be saved as-is.
+export const validateContent = <T,>(form: T, rules: ContentRule<T>[], taxonomy: Taxonomy): ContentValidationError | null => {
+  if (taxonomy === EMPTY_TAXONOMY) return { message: 'Genres, languages and ratings have not loaded yet', fieldErrors: {} };
+  const fieldErrors: Record<string, string> = {};
+  const missing: string[] = [];
+  rules.forEach((rule) => {
+    const error = rule.missing?.(form);
+    if (!error) return;
+    fieldErrors[rule.field] = error;
+    if (!missing.includes(rule.label)) missing.push(rule.label);
+  });
+  if (missing.length) return { message: `Missing required: ${missing.join(', ')}`, fieldErrors };
+
+  rules.forEach((rule) => {
+    const error = rule.invalid?.(form, taxonomy);
+    if (error) fieldErrors[rule.field] = error;
+  });
+  const errors = Object.values(fieldErrors);
+  if (errors.length) return { message: errors.length === 1 ? errors[0] : `Please fix ${errors.length} fields`, fieldErrors };
+  return null;
+};
+
+export const CONTENT_RULES: ContentRule<ContentMetadata>[] = [
+  { field: 'title', label: 'title', missing: (form) => (form.title ? null : 'Title is required') },
+  { field: 'description', label: 'description', missing: (form) => (form.description ? null : 'Description is required') },
+  {
+    field: 'genres',
+    label: 'genres',
+    missing: (form) => (form.genres.length ? null : 'Select at least one genre'),
+    invalid: (form, taxonomy) =>
+      form.genres.length > taxonomy.maxGenres || form.genres.some((genre) => !taxonomy.genres.includes(genre))
+        ? `Pick up to ${taxonomy.maxGenres} genres from the list`
+        : null
+  },
+  {
+    field: 'language',
+    label: 'language',
+    missing: (form) => (form.language ? null : 'Language is required'),
+    invalid: (form, taxonomy) => (taxonomy.languages.some((language) => language.code === form.language) ? null : 'Pick a language from the list')
+  },
+  { field: 'releaseYear', label: 'releaseYear', missing: (form) => (form.releaseYear ? null : 'Release year is required') },
+  { field: 'posterVertical', label: 'poster URLs', missing: (form) => (form.poster.vertical ? null : 'Vertical poster URL required') },
+  { field: 'posterHorizontal', label: 'poster URLs', missing: (form) => (form.poster.horizontal ? null : 'Horizontal poster URL required') },
+  {
+    field: 'maturityRating',
+    label: 'maturity rating',
+    missing: (form) => (form.maturityRating ? null : 'Maturity rating is required'),
+    invalid: (form, taxonomy) =>
+      taxonomy.maturityRatings.some((rating) => rating.value === form.maturityRating)
+        ? null
+        : `Select ${taxonomy.maturityRatings.map((rating) => rating.value).join(', ')}`
+  }
+];
+
+// Where a stored title disagrees with the taxonomy, and what it would become. Null when it agrees.
+export interface MetadataIssues {
+  // `suggestion` is the language code the stored value resolves to, or null when nothing matches.
+  language?: { stored: string; suggestion: string | null };
+  // `suggestion` keeps every genre that resolves, in order, up to the limit.
+  genres?: { unknown: string[]; suggestion: string[] };
+}
+
+export const metadataIssues = (title: { language?: string | null; genres?: string[] | null }, taxonomy: Taxonomy): MetadataIssues | null => {
+  const issues: MetadataIssues = {};
+  const language = title.language || '';
+  if (language && !taxonomy.languages.some((entry) => entry.code === language)) {
+    issues.language = { stored: language, suggestion: findLanguage(language, taxonomy)?.code ?? null };
+  }
+  const genres = title.genres || [];
+  const unknown = genres.filter((genre) => !taxonomy.genres.includes(genre));
+  if (unknown.length || genres.length > taxonomy.maxGenres) {
+    issues.genres = { unknown, suggestion: knownGenres(genres, taxonomy) };
+  }
+  return issues.language || issues.genres ? issues : null;
+};
+
+interface FieldProps {
+  taxonomy: Taxonomy;
+  disabled?: boolean;
+  error?: string;
+}
+
+export const GenreSelect: React.FC<FieldProps & { value: string[]; onChange: (genres: string[]) => void }> = ({
+  taxonomy,
+  value,
+  onChange,
+  disabled,
+  error
+}) => (
+  <Autocomplete
+    multiple
+    options={taxonomy.genres}
+    value={value}
+    disabled={disabled}
+    onChange={(_, genres) => onChange(genres.slice(0, taxonomy.maxGenres))}
+    renderInput={(params) => (
+      <TextField {...params} label="Genres" placeholder={`Select up to ${taxonomy.maxGenres}`} error={!!error} helperText={error} />
+    )}
+  />
+);
+
+export const LanguageSelect: React.FC<FieldProps & { value: string; onChange: (code: string) => void }> = ({
+  taxonomy,
+  value,
+  onChange,
+  disabled,
+  error
+}) => {
+  const known = !value || taxonomy.languages.some((language) => language.code === value);
+  return (
+    <TextField
+      select
+      label="Language"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={disabled}
+      error={!!error || !known}
+      helperText={error || (known ? undefined : 'Stored value is not in the language list')}
+    >
+      {/* Keeps a legacy value visible instead of rendering an empty select. */}
+      {!known && <MenuItem value={value} disabled>{value}</MenuItem>}
+      {taxonomy.languages.map((language) => (
+        <MenuItem key={language.code} value={language.code}>{languageLabel(language.code, taxonomy)}</MenuItem>
+      ))}
+    </TextField>
+  );
+};
+
+type MaturityRatingSelectProps = Omit<TextFieldProps, 'select' | 'value' | 'onChange'> & {
+  taxonomy: Taxonomy;
+  value: MaturityRating | '';
+  onChange: (rating: MaturityRating) => void;
+};
+
+export const MaturityRatingSelect: React.FC<MaturityRatingSelectProps> = ({ taxonomy, value, onChange, label = 'Maturity Rating', ...props }) => (
+  <TextField select label={label} value={value} onChange={(e) => onChange(e.target.value as MaturityRating)} {...props}>
+    {taxonomy.maturityRatings.map((rating) => (
+      <MenuItem key={rating.value} value={rating.value} title={rating.description ?? undefined}>
+        {rating.label}
+      </MenuItem>
+    ))}
+  </TextField>
+);
+
+type ContentInfo = Pick<ContentMetadata, 'title' | 'description' | 'genres' | 'language' | 'releaseYear'>;
+
+interface ContentInfoFieldsProps {
+  form: ContentInfo;
+  onChange: (changes: Partial<ContentInfo>) => void;
+  taxonomy: Taxonomy;
+  fieldErrors: Record<string, string>;
+  disabled?: boolean;
+  // Extra controls for the row holding language and release year, e.g. duration or maturity rating.
+  children?: React.ReactNode;
+}
+
+// The descriptive fields at the top of the movie and series forms.
+export const ContentInfoFields: React.FC<ContentInfoFieldsProps> = ({ form, onChange, taxonomy, fieldErrors, disabled, children }) => (
+  <>
+    <TextField
+      label="Title"
+      value={form.title}
+      onChange={(e) => onChange({ title: e.target.value })}
+      required
+      fullWidth
+      disabled={disabled}
+      error={!!fieldErrors.title}
+      helperText={fieldErrors.title}
+    />
+    <TextField
+      label="Description"
+      value={form.description}
+      onChange={(e) => onChange({ description: e.target.value })}
+      multiline
+      minRows={2}
+      fullWidth
+      disabled={disabled}
+      error={!!fieldErrors.description}
+      helperText={fieldErrors.description}
+    />
+    <GenreSelect taxonomy={taxonomy} value={form.genres} onChange={(genres) => onChange({ genres })} disabled={disabled} error={fieldErrors.genres} />
+    <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit,minmax(180px,1fr))', gap: 2 }}>
+      <LanguageSelect
+        taxonomy={taxonomy}
+        value={form.language}
+        onChange={(language) => onChange({ language })}
+        disabled={disabled}
+        error={fieldErrors.language}
+      />
+      <TextField
+        label="Release Year"
+        type="number"
+        value={form.releaseYear || ''}
+        onChange={(e) => onChange({ releaseYear: Number(e.target.value) })}
+        disabled={disabled}
+        error={!!fieldErrors.releaseYear}
+        helperText={fieldErrors.releaseYear}
+      />
+      {children}
+    </Box>
+  </>
+);
+
+interface PosterFieldsProps {
+  poster: Poster;
+  // Per side, so two uploads finishing close together can't overwrite each other.
+  onChange: (side: keyof Poster, url: string) => void;
+  // Cloudinary folder the uploads go to.
+  folder: string;
+  fieldErrors: Record<string, string>;
+  disabled?: boolean;
+}
+
+export const PosterFields: React.FC<PosterFieldsProps> = ({ poster, onChange, folder, fieldErrors, disabled }) => (
+  <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit,minmax(220px,1fr))', gap: 2 }}>
+    <ImageUploader
+      label="Poster Vertical URL"
+      aspect="vertical"
+      folder={folder}
+      value={poster.vertical}
+      onChange={(url) => onChange('vertical', url)}
+      disabled={disabled}
+      error={!!fieldErrors.posterVertical}
+      helperText={fieldErrors.posterVertical}
+    />
+    <ImageUploader
+      label="Poster Horizontal URL"
+      aspect="horizontal"
+      folder={folder}
+      value={poster.horizontal}
+      onChange={(url) => onChange('horizontal', url)}
+      disabled={disabled}
+      error={!!fieldErrors.posterHorizontal}
+      helperText={fieldErrors.posterHorizontal}
+    />
+  </Box>
+);
@@ -0,0 +1,274 @@
+import React from 'react';
+import { Link as RouterLink } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { Alert, Box, Chip, Link, Paper, Stack, Typography } from '@mui/material';
+import {
+  LineChart,
+  Line,
+  CartesianGrid,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+  PieChart,
+  Pie,
+  Cell,
+  BarChart,
+  Bar
+} from 'recharts';
+import { analyticsApi, getErrorMessage, queryKeys, type DashboardLayout } from '../api';
+import type { ExportColumn } from './ExportButton';
+import { ChartHeader, StatCard, countColumns } from './AnalyticsWidgets';
+import type { AnalyticsRangeState } from './DateRangeControls';
+import LiveActivityPanel from './LiveActivityPanel';
+
+const COLORS = ['#0f62fe', '#36cfc9', '#ffa940', '#722ed1', '#eb2f96', '#52c41a'];
+const CHART_HEIGHT = 320;
+
+interface TopContentRow {
+  type: 'Movie' | 'Series';
+  title: string;
+  views: number;
+}
+
+const TOP_CONTENT_COLUMNS: ExportColumn<TopContentRow>[] = [
+  { header: 'Type', value: (row) => row.type },
+  { header: 'Title', value: (row) => row.title },
+  { header: 'Views', value: (row) => row.views }
+];
+
+export interface WidgetProps {
+  rangeState: AnalyticsRangeState;
+}
+
+const WidgetError: React.FC<{ error: unknown }> = ({ error }) =>
+  error ? <Alert severity="error" sx={{ my: 1 }}>{getErrorMessage(error, 'Failed to load')}</Alert> : null;
+
+const rangeSuffix = ({ range }: AnalyticsRangeState) => `${range.from}-to-${range.to}`;
+
+type StatKey = 'totalUsers' | 'activeSubscriptions' | 'totalMovies' | 'totalSeries' | 'dailyActiveUsers' | 'totalWatchTime';
+
+// Every stat card reads the same two queries; react-query dedupes them.
+const statWidget = (key: StatKey, title: string): React.FC<WidgetProps> => {
+  const Widget: React.FC<WidgetProps> = ({ rangeState: { range, previous, compare } }) => {
+    const statsQuery = useQuery({ queryKey: queryKeys.analytics.dashboard(range), queryFn: () => analyticsApi.dashboard(range) });
+    const prevQuery = useQuery({
+      queryKey: queryKeys.analytics.dashboard(previous),
+      queryFn: () => analyticsApi.dashboard(previous),
+      enabled: compare
+    });
+    return (
+      <StatCard
+        title={statsQuery.error ? `${title} (failed to load)` : title}
+        value={statsQuery.data?.[key]}
+        previous={compare ? prevQuery.data?.[key] : undefined}
+      />
+    );
+  };
+  return Widget;
+};
+
+const ViewsWidget: React.FC<WidgetProps> = ({ rangeState }) => {
+  const params = { ...rangeState.range, granularity: rangeState.granularity };
+  const viewsQuery = useQuery({ queryKey: queryKeys.analytics.viewsPerDay(params), queryFn: () => analyticsApi.viewsPerDay(params) });
+  const views = viewsQuery.data?.viewsPerDay ?? [];
+  return (
+    <Paper sx={{ p: 2, height: CHART_HEIGHT }}>
+      <ChartHeader title={`Views (${rangeState.label})`} filename={`views-${rangeSuffix(rangeState)}`} columns={countColumns('Date', 'Views')} rows={views} />
+      <WidgetError error={viewsQuery.error} />
+      <ResponsiveContainer width="100%" height="90%">
+        <LineChart data={views}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="_id" tick={{ fontSize: 12 }} />
+          <YAxis allowDecimals={false} />
+          <Tooltip />
+          <Line type="monotone" dataKey="count" stroke="#0f62fe" strokeWidth={2} dot={false} />
+        </LineChart>
+      </ResponsiveContainer>
+    </Paper>
+  );
+};
+
+const UserGrowthWidget: React.FC<WidgetProps> = ({ rangeState }) => {
+  const params = { ...rangeState.range, granularity: rangeState.granularity };
+  const growthQuery = useQuery({ queryKey: queryKeys.analytics.userGrowth(params), queryFn: () => analyticsApi.userGrowth(params) });
+  const growth = growthQuery.data?.userGrowth ?? [];
+  return (
+    <Paper sx={{ p: 2, height: CHART_HEIGHT }}>
+      <ChartHeader
+        title={`User Growth (${rangeState.label})`}
+        filename={`user-growth-${rangeSuffix(rangeState)}`}
+        columns={countColumns('Date', 'New users')}
+        rows={growth}
+      />
+      <WidgetError error={growthQuery.error} />
+      <ResponsiveContainer width="100%" height="90%">
+        <BarChart data={growth}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="_id" tick={{ fontSize: 12 }} />
+          <YAxis allowDecimals={false} />
+          <Tooltip />
+          <Bar dataKey="count" fill="#36cfc9" radius={[6,6,0,0]} />
+        </BarChart>
+      </ResponsiveContainer>
+    </Paper>
+  );
+};
+
+const ContentMixWidget: React.FC<WidgetProps> = () => {
+  const distQuery = useQuery({ queryKey: queryKeys.analytics.contentDistribution(), queryFn: analyticsApi.contentDistribution });
+  const contentDist = distQuery.data ?? null;
+  return (
+    <Paper sx={{ p: 2, height: CHART_HEIGHT }}>
+      <Typography variant="h6">Content Mix</Typography>
+      <WidgetError error={distQuery.error} />
+      <ResponsiveContainer width="100%" height="80%">
+        <PieChart>
+          <Pie dataKey="value" data={[
+            { name: 'Movies', value: contentDist?.movies ?? 0 },
+            { name: 'Series', value: contentDist?.series ?? 0 }
+          ]} innerRadius={50} outerRadius={90} paddingAngle={4}>
+            {[0,1].map((i) => <Cell key={i} fill={COLORS[i]} />)}
+          </Pie>
+          <Tooltip />
+        </PieChart>
+      </ResponsiveContainer>
+      <Stack direction="row" spacing={1} justifyContent="center">
+        <Chip size="small" label={`Movies: ${contentDist?.movies ?? 0}`} />
+        <Chip size="small" label={`Series: ${contentDist?.series ?? 0}`} />
+      </Stack>
+    </Paper>
+  );
+};
+
+const GenresWidget: React.FC<WidgetProps> = () => {
+  const genreQuery = useQuery({ queryKey: queryKeys.analytics.genreDistribution(), queryFn: analyticsApi.genreDistribution });
+  const genreDist = genreQuery.data?.genreDistribution ?? [];
+  return (
+    <Paper sx={{ p: 2, height: CHART_HEIGHT }}>
+      <ChartHeader title="Genres" filename="genre-distribution" columns={countColumns('Genre', 'Titles')} rows={genreDist} />
+      <WidgetError error={genreQuery.error} />
+      <ResponsiveContainer width="100%" height="90%">
+        <PieChart>
+          <Pie dataKey="count" data={genreDist} nameKey="_id" innerRadius={50} outerRadius={90}>
+            {genreDist.map((_, i) => <Cell key={i} fill={COLORS[i % COLORS.length]} />)}
+          </Pie>
+          <Tooltip />
+        </PieChart>
+      </ResponsiveContainer>
+    </Paper>
+  );
+};
+
+const TopContentWidget: React.FC<WidgetProps> = ({ rangeState }) => {
+  const { range } = rangeState;
+  const topQuery = useQuery({ queryKey: queryKeys.analytics.topContent(range), queryFn: () => analyticsApi.topContent(range) });
+  const topMovies = topQuery.data?.topMovies ?? [];
+  const topSeries = topQuery.data?.topSeries ?? [];
+  const topContentRows: TopContentRow[] = [
+    ...topMovies.map((m) => ({ type: 'Movie' as const, title: m.title, views: m.views ?? 0 })),
+    ...topSeries.map((s) => ({ type: 'Series' as const, title: s.title, views: s.totalViews ?? 0 }))
+  ];
+  return (
+    <Paper sx={{ p: 2, height: CHART_HEIGHT, overflow: 'auto' }}>
+      <ChartHeader title="Top Content" filename={`top-content-${rangeSuffix(rangeState)}`} columns={TOP_CONTENT_COLUMNS} rows={topContentRows} />
+      <WidgetError error={topQuery.error} />
+      <Box mt={2}>
+        <Typography variant="subtitle2">Movies</Typography>
+        {topMovies.map((m, idx) => (
+          <Stack key={m.title + idx} direction="row" justifyContent="space-between" py={0.5}>
+            {m._id ? (
+              <Link component={RouterLink} to={`/content/${m._id}/analytics`} variant="body2" underline="hover">{m.title}</Link>
+            ) : (
+              <Typography variant="body2">{m.title}</Typography>
+            )}
+            <Typography variant="body2" color="text.secondary">{m.views ?? 0} views</Typography>
+          </Stack>
+        ))}
+      </Box>
+      <Box mt={2}>
+        <Typography variant="subtitle2">Series</Typography>
+        {topSeries.map((s, idx) => (
+          <Stack key={s.title + idx} direction="row" justifyContent="space-between" py={0.5}>
+            {s._id ? (
+              <Link component={RouterLink} to={`/series/${s._id}/analytics`} variant="body2" underline="hover">{s.title}</Link>
+            ) : (
+              <Typography variant="body2">{s.title}</Typography>
+            )}
+            <Typography variant="body2" color="text.secondary">{s.totalViews ?? 0} views</Typography>
+          </Stack>
+        ))}
+      </Box>
+    </Paper>
+  );
+};
+
+const RecommendationsWidget: React.FC<WidgetProps> = () => {
+  const recQuery = useQuery({ queryKey: queryKeys.analytics.recommendations(), queryFn: analyticsApi.recommendations });
+  const recommendations = recQuery.data ?? [];
+  return (
+    <Paper sx={{ p: 2 }}>
+      <Typography variant="h6">Recommended for You</Typography>
+      <WidgetError error={recQuery.error} />
+      {!recQuery.isFetching && !recommendations.length && (
+        <Typography variant="body2" color="text.secondary">No recommendations yet</Typography>
+      )}
+      <Stack direction="row" spacing={2} sx={{ overflowX: 'auto', py: 1 }}>
+        {recommendations.map((item, idx) => (
+          <Box key={item._id || idx} sx={{ minWidth: 160, maxWidth: 180 }}>
+            <img
+              src={item.poster?.vertical || item.poster?.horizontal}
+              alt={item.title}
+              style={{ width: '100%', borderRadius: 8, objectFit: 'cover' }}
+            />
+            <Typography variant="subtitle2" noWrap>{item.title}</Typography>
+          </Box>
+        ))}
+      </Stack>
+    </Paper>
+  );
+};
+
+export interface WidgetDefinition {
+  id: string;
+  title: string;
+  // Width in columns of the 12-column dashboard grid.
+  defaultSpan: number;
+  minSpan: number;
+  component: React.FC<WidgetProps>;
+}
+
+export const WIDGETS: WidgetDefinition[] = [
+  { id: 'recommendations', title: 'Recommended for You', defaultSpan: 12, minSpan: 6, component: RecommendationsWidget },
+  { id: 'live-activity', title: 'Live activity', defaultSpan: 12, minSpan: 6, component: LiveActivityPanel },
+  { id: 'stat-total-users', title: 'Total Users', defaultSpan: 3, minSpan: 2, component: statWidget('totalUsers', 'Total Users') },
+  { id: 'stat-premium-users', title: 'Premium Users', defaultSpan: 3, minSpan: 2, component: statWidget('activeSubscriptions', 'Premium Users') },
+  { id: 'stat-published-movies', title: 'Published Movies', defaultSpan: 3, minSpan: 2, component: statWidget('totalMovies', 'Published Movies') },
+  { id: 'stat-published-series', title: 'Published Series', defaultSpan: 3, minSpan: 2, component: statWidget('totalSeries', 'Published Series') },
+  { id: 'stat-daily-active', title: 'Daily Active', defaultSpan: 3, minSpan: 2, component: statWidget('dailyActiveUsers', 'Daily Active') },
+  { id: 'stat-watch-time', title: 'Watch Time (min)', defaultSpan: 3, minSpan: 2, component: statWidget('totalWatchTime', 'Watch Time (min)') },
+  { id: 'views', title: 'Views', defaultSpan: 6, minSpan: 4, component: ViewsWidget },
+  { id: 'user-growth', title: 'User Growth', defaultSpan: 6, minSpan: 4, component: UserGrowthWidget },
+  { id: 'content-mix', title: 'Content Mix', defaultSpan: 4, minSpan: 3, component: ContentMixWidget },
+  { id: 'genres', title: 'Genres', defaultSpan: 4, minSpan: 3, component: GenresWidget },
+  { id: 'top-content', title: 'Top Content', defaultSpan: 4, minSpan: 3, component: TopContentWidget }
+];
+
+export const WIDGETS_BY_ID = new Map(WIDGETS.map((widget) => [widget.id, widget]));
+
+export const DEFAULT_LAYOUT: DashboardLayout['widgets'] = WIDGETS.map((widget) => ({ id: widget.id, span: widget.defaultSpan }));
+
+export const clampSpan = (widget: WidgetDefinition, span: number) => Math.min(12, Math.max(widget.minSpan, Math.round(span)));
+
+// A saved layout can mention widgets that have since been removed from the catalog, or repeat one;
+// drop those rather than failing. Nothing saved yet means the default layout.
+export const normalizeLayout = (saved: DashboardLayout | null | undefined): DashboardLayout['widgets'] => {
+  if (!saved) return DEFAULT_LAYOUT;
+  const seen = new Set<string>();
+  return saved.widgets.flatMap((item) => {
+    const widget = WIDGETS_BY_ID.get(item.id);
+    if (!widget || seen.has(item.id)) return [];
+    seen.add(item.id);
+    return [{ id: item.id, span: clampSpan(widget, item.span) }];
+  });
+};
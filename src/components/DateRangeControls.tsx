@@ -0,0 +1,129 @@
+import React from 'react';
+import { FormControlLabel, Paper, Stack, Switch, TextField, ToggleButton, ToggleButtonGroup } from '@mui/material';
+import type { AnalyticsRange, Granularity } from '../api';
+import { useQueryParams } from '../routes/useQueryParams';
+
+export type RangePreset = '7d' | '30d' | '90d' | 'ytd' | 'custom';
+
+const PRESETS: Array<{ value: RangePreset; label: string }> = [
+  { value: '7d', label: '7d' },
+  { value: '30d', label: '30d' },
+  { value: '90d', label: '90d' },
+  { value: 'ytd', label: 'YTD' },
+  { value: 'custom', label: 'Custom' }
+];
+const PRESET_DAYS: Partial<Record<RangePreset, number>> = { '7d': 7, '30d': 30, '90d': 90 };
+const GRANULARITIES: Granularity[] = ['day', 'week', 'month'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Local calendar dates; toISOString would shift them by the timezone offset.
+const toIsoDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+export const parseIsoDate = (value: string) => {
+  const [y, m, d] = value.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+const addDays = (value: string, days: number) => {
+  const date = parseIsoDate(value);
+  date.setDate(date.getDate() + days);
+  return toIsoDate(date);
+};
+const isIsoDate = (value: string | null): value is string => !!value && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+const presetRange = (preset: RangePreset, today: string): AnalyticsRange => {
+  if (preset === 'ytd') return { from: `${today.slice(0, 4)}-01-01`, to: today };
+  return { from: addDays(today, -((PRESET_DAYS[preset] ?? 30) - 1)), to: today };
+};
+
+export const rangeLength = (range: AnalyticsRange) =>
+  Math.round((parseIsoDate(range.to).getTime() - parseIsoDate(range.from).getTime()) / DAY_MS) + 1;
+
+// The window of the same length that ends the day before `range` starts.
+export const previousRange = (range: AnalyticsRange): AnalyticsRange => {
+  const to = addDays(range.from, -1);
+  return { from: addDays(to, -(rangeLength(range) - 1)), to };
+};
+
+export const formatRange = (preset: RangePreset, range: AnalyticsRange) => {
+  if (preset === 'ytd') return 'year to date';
+  if (preset !== 'custom') return `last ${PRESET_DAYS[preset]} days`;
+  return `${parseIsoDate(range.from).toLocaleDateString()} – ${parseIsoDate(range.to).toLocaleDateString()}`;
+};
+
+// Range, granularity and comparison live in the URL (`range`, `from`, `to`, `granularity`, `compare`)
+// so a dashboard link opens with the same view.
+export const useAnalyticsRange = () => {
+  const { searchParams, updateQuery: update } = useQueryParams();
+  const today = toIsoDate(new Date());
+  const rawPreset = searchParams.get('range') as RangePreset | null;
+  const preset: RangePreset = PRESETS.some((p) => p.value === rawPreset) ? (rawPreset as RangePreset) : '30d';
+  const from = searchParams.get('from');
+  const to = searchParams.get('to');
+  const range =
+    preset === 'custom' && isIsoDate(from) && isIsoDate(to) && from <= to ? { from, to } : presetRange(preset === 'custom' ? '30d' : preset, today);
+  const rawGranularity = searchParams.get('granularity') as Granularity | null;
+  const granularity: Granularity = rawGranularity && GRANULARITIES.includes(rawGranularity) ? rawGranularity : 'day';
+  const compare = searchParams.get('compare') === '1';
+
+  return {
+    preset,
+    range,
+    previous: previousRange(range),
+    granularity,
+    compare,
+    label: formatRange(preset, range),
+    setPreset: (value: RangePreset) =>
+      // Switching to custom starts from whatever window is showing, so the pickers aren't empty.
+      update(value === 'custom' ? { range: value, from: range.from, to: range.to } : { range: value, from: null, to: null }),
+    setCustom: (next: AnalyticsRange) => update({ range: 'custom', from: next.from, to: next.to }),
+    setGranularity: (value: Granularity) => update({ granularity: value === 'day' ? null : value }),
+    setCompare: (value: boolean) => update({ compare: value ? '1' : null })
+  };
+};
+
+export type AnalyticsRangeState = ReturnType<typeof useAnalyticsRange>;
+
+const DateRangeControls: React.FC<{ state: AnalyticsRangeState; showGranularity?: boolean }> = ({ state, showGranularity = true }) => (
+  <Paper sx={{ p: 1.5 }}>
+    <Stack direction="row" spacing={2} alignItems="center" flexWrap="wrap" useFlexGap>
+      <ToggleButtonGroup size="small" exclusive value={state.preset} onChange={(_, value) => value && state.setPreset(value)}>
+        {PRESETS.map((p) => (
+          <ToggleButton key={p.value} value={p.value}>{p.label}</ToggleButton>
+        ))}
+      </ToggleButtonGroup>
+      {state.preset === 'custom' && (
+        <>
+          <TextField
+            type="date"
+            size="small"
+            label="From"
+            value={state.range.from}
+            onChange={(e) => isIsoDate(e.target.value) && e.target.value <= state.range.to && state.setCustom({ ...state.range, from: e.target.value })}
+            InputLabelProps={{ shrink: true }}
+          />
+          <TextField
+            type="date"
+            size="small"
+            label="To"
+            value={state.range.to}
+            onChange={(e) => isIsoDate(e.target.value) && e.target.value >= state.range.from && state.setCustom({ ...state.range, to: e.target.value })}
+            InputLabelProps={{ shrink: true }}
+          />
+        </>
+      )}
+      {showGranularity && (
+        <ToggleButtonGroup size="small" exclusive value={state.granularity} onChange={(_, value) => value && state.setGranularity(value)}>
+          {GRANULARITIES.map((g) => (
+            <ToggleButton key={g} value={g} sx={{ textTransform: 'capitalize' }}>{g}</ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+      )}
+      <FormControlLabel
+        control={<Switch checked={state.compare} onChange={(e) => state.setCompare(e.target.checked)} />}
+        label="Compare to previous period"
+      />
+    </Stack>
+  </Paper>
+);
+
+export default DateRangeControls;
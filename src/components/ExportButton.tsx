@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { Button, IconButton, Menu, MenuItem, Tooltip } from '@mui/material';
+import DownloadIcon from '@mui/icons-material/Download';
+import { getErrorMessage } from '../api';
+
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => unknown;
+}
+
+// Large enough to keep the number of round trips low, small enough that each page stays fast.
+const EXPORT_PAGE_SIZE = 100;
+
+// Walks every page of a paginated list endpoint so an export covers the whole filtered result,
+// not just what is on screen.
+export const fetchAllPages = async <T,>(
+  fetchPage: (page: number, limit: number) => Promise<{ rows: T[]; total?: number | null }>,
+  onProgress?: (loaded: number, total?: number) => void
+): Promise<T[]> => {
+  const all: T[] = [];
+  for (let page = 1; ; page++) {
+    const { rows, total } = await fetchPage(page, EXPORT_PAGE_SIZE);
+    all.push(...rows);
+    onProgress?.(all.length, total ?? undefined);
+    // The API may cap `limit` below what was asked for, so a short page only ends the walk when there is no total.
+    if (!rows.length || (total != null ? all.length >= total : rows.length < EXPORT_PAGE_SIZE)) return all;
+  }
+};
+
+const csvCell = (value: unknown) => {
+  if (value === undefined || value === null) return '';
+  let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  // Spreadsheet apps run cells starting with these as formulas.
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = <T,>(rows: T[], columns: ExportColumn<T>[]) =>
+  [columns.map((col) => csvCell(col.header)).join(','), ...rows.map((row) => columns.map((col) => csvCell(col.value(row))).join(','))].join('\r\n');
+
+export const downloadFile = (filename: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+interface ExportButtonProps<T> {
+  // Without extension; the date and format are appended.
+  filename: string;
+  columns: ExportColumn<T>[];
+  loadRows: (onProgress: (loaded: number, total?: number) => void) => Promise<T[]> | T[];
+  onError?: (message: string) => void;
+  compact?: boolean;
+  disabled?: boolean;
+}
+
+const ExportButton = <T,>({ filename, columns, loadRows, onError, compact, disabled }: ExportButtonProps<T>) => {
+  const [anchor, setAnchor] = useState<HTMLElement | null>(null);
+  const [progress, setProgress] = useState<string | null>(null);
+
+  const runExport = async (format: 'csv' | 'json') => {
+    setAnchor(null);
+    setProgress('Exporting…');
+    try {
+      const rows = await loadRows((loaded, total) => setProgress(`Exporting ${loaded}${total ? ` / ${total}` : ''}…`));
+      const name = `${filename}-${new Date().toISOString().slice(0, 10)}.${format}`;
+      if (format === 'csv') downloadFile(name, toCsv(rows, columns), 'text/csv;charset=utf-8');
+      else downloadFile(name, JSON.stringify(rows, null, 2), 'application/json');
+    } catch (err) {
+      const message = getErrorMessage(err, 'Export failed');
+      if (onError) onError(message);
+      else alert(message);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const busy = progress !== null;
+
+  return (
+    <>
+      {compact ? (
+        <Tooltip title={progress || 'Export'}>
+          <span>
+            <IconButton size="small" onClick={(e) => setAnchor(e.currentTarget)} disabled={disabled || busy}>
+              <DownloadIcon fontSize="small" />
+            </IconButton>
+          </span>
+        </Tooltip>
+      ) : (
+        <Button variant="outlined" startIcon={<DownloadIcon />} onClick={(e) => setAnchor(e.currentTarget)} disabled={disabled || busy}>
+          {progress || 'Export'}
+        </Button>
+      )}
+      <Menu anchorEl={anchor} open={!!anchor} onClose={() => setAnchor(null)}>
+        <MenuItem onClick={() => runExport('csv')}>CSV</MenuItem>
+        <MenuItem onClick={() => runExport('json')}>JSON</MenuItem>
+      </Menu>
+    </>
+  );
+};
+
+export default ExportButton;
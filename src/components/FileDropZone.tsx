@@ -0,0 +1,55 @@
+import React, { useRef } from 'react';
+import { Box, Typography } from '@mui/material';
+import CloudUploadIcon from '@mui/icons-material/CloudUpload';
+
+interface FileDropZoneProps {
+  // Passed to the file input, e.g. `.csv,text/csv`.
+  accept: string;
+  label: string;
+  hint: React.ReactNode;
+  onFile: (file: File) => void;
+}
+
+// Click-to-choose or drag-and-drop target for the import dialogs. Only the first file is used.
+const FileDropZone: React.FC<FileDropZoneProps> = ({ accept, label, hint, onFile }) => {
+  const inputRef = useRef<HTMLInputElement | null>(null);
+
+  return (
+    <Box
+      onDragOver={(e) => e.preventDefault()}
+      onDrop={(e) => {
+        e.preventDefault();
+        const file = e.dataTransfer.files?.[0];
+        if (file) onFile(file);
+      }}
+      onClick={() => inputRef.current?.click()}
+      sx={{
+        p: 4,
+        border: '1px dashed',
+        borderColor: 'primary.light',
+        borderRadius: 1,
+        bgcolor: 'action.hover',
+        textAlign: 'center',
+        cursor: 'pointer'
+      }}
+    >
+      <CloudUploadIcon color="action" />
+      <Typography variant="body2">{label}</Typography>
+      <Typography variant="caption" color="text.secondary">{hint}</Typography>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={accept}
+        hidden
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onFile(file);
+          // Lets the same file be picked again after a failed attempt.
+          e.target.value = '';
+        }}
+      />
+    </Box>
+  );
+};
+
+export default FileDropZone;
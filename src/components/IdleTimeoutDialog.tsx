@@ -0,0 +1,72 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button, Dialog, DialogActions, DialogContent, DialogContentText, DialogTitle, LinearProgress } from '@mui/material';
+import { useAuth } from '../state/AuthContext';
+
+const IDLE_TIMEOUT_MS = (Number(import.meta.env.VITE_IDLE_TIMEOUT_MINUTES) || 30) * 60 * 1000;
+const WARNING_MS = 60 * 1000;
+const ACTIVITY_KEY = 'lastActivity';
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart'] as const;
+
+// Activity is shared through localStorage so working in one tab keeps the others signed in too.
+const readLastActivity = () => Number(localStorage.getItem(ACTIVITY_KEY)) || Date.now();
+
+const IdleTimeoutDialog: React.FC = () => {
+  const { logout } = useAuth();
+  const [remainingMs, setRemainingMs] = useState<number | null>(null);
+  const lastWrite = useRef(0);
+
+  const markActive = () => {
+    const now = Date.now();
+    // Throttle writes; mousemove alone fires dozens of times a second.
+    if (now - lastWrite.current < 5000) return;
+    lastWrite.current = now;
+    localStorage.setItem(ACTIVITY_KEY, String(now));
+  };
+
+  useEffect(() => {
+    lastWrite.current = 0;
+    markActive();
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, markActive, { passive: true }));
+
+    const id = setInterval(() => {
+      const remaining = IDLE_TIMEOUT_MS - (Date.now() - readLastActivity());
+      if (remaining <= 0) {
+        localStorage.removeItem(ACTIVITY_KEY);
+        logout();
+        return;
+      }
+      setRemainingMs(remaining <= WARNING_MS ? remaining : null);
+    }, 1000);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, markActive));
+      clearInterval(id);
+    };
+  }, [logout]);
+
+  const stayActive = () => {
+    lastWrite.current = 0;
+    markActive();
+    setRemainingMs(null);
+  };
+
+  const seconds = Math.ceil((remainingMs ?? 0) / 1000);
+
+  return (
+    <Dialog open={remainingMs !== null} onClose={stayActive} maxWidth="xs" fullWidth>
+      <DialogTitle>Still there?</DialogTitle>
+      <DialogContent>
+        <DialogContentText sx={{ mb: 2 }}>
+          You've been inactive for a while. You will be signed out in {seconds} second{seconds === 1 ? '' : 's'}.
+        </DialogContentText>
+        <LinearProgress variant="determinate" value={((remainingMs ?? 0) / WARNING_MS) * 100} />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={logout}>Sign out now</Button>
+        <Button variant="contained" onClick={stayActive}>Stay signed in</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default IdleTimeoutDialog;
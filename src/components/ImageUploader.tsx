@@ -0,0 +1,254 @@
+import React, { useRef, useState } from 'react';
+import axios from 'axios';
+import Cropper, { type Area } from 'react-easy-crop';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  LinearProgress,
+  Slider,
+  Stack,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography
+} from '@mui/material';
+import CloudUploadIcon from '@mui/icons-material/CloudUpload';
+import { getErrorMessage, integrationsApi } from '../api';
+
+export type PosterAspect = 'vertical' | 'horizontal';
+
+const ASPECTS: Record<PosterAspect, { ratio: number; label: string; width: number }> = {
+  vertical: { ratio: 2 / 3, label: 'Vertical 2:3', width: 1000 },
+  horizontal: { ratio: 16 / 9, label: 'Horizontal 16:9', width: 1920 }
+};
+
+interface ImageUploaderProps {
+  label: string;
+  value: string;
+  onChange: (url: string) => void;
+  aspect: PosterAspect;
+  // Episode thumbnails can be either shape; posters are fixed to their slot.
+  allowAspectChange?: boolean;
+  folder?: string;
+  error?: boolean;
+  helperText?: string;
+  disabled?: boolean;
+}
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = reject;
+    img.src = src;
+  });
+
+// Draws the cropped area onto a canvas scaled to the target width and returns it as a JPEG.
+const cropToBlob = async (src: string, area: Area, aspect: PosterAspect): Promise<Blob> => {
+  const img = await loadImage(src);
+  const width = Math.min(ASPECTS[aspect].width, Math.round(area.width));
+  const height = Math.round(width / ASPECTS[aspect].ratio);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported in this browser');
+  ctx.drawImage(img, area.x, area.y, area.width, area.height, 0, 0, width, height);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Failed to crop image'))), 'image/jpeg', 0.9);
+  });
+};
+
+// The backend signs the upload so the Cloudinary API secret never reaches the browser.
+const uploadToCloudinary = async (blob: Blob, folder: string, onProgress: (pct: number) => void) => {
+  const { signature, timestamp, apiKey, cloudName, folder: signedFolder } = await integrationsApi.getCloudinarySignature(folder);
+  const body = new FormData();
+  body.append('file', blob);
+  body.append('api_key', apiKey);
+  body.append('timestamp', String(timestamp));
+  body.append('signature', signature);
+  body.append('folder', signedFolder || folder);
+  const res = await axios.post(`https://api.cloudinary.com/v1_1/${cloudName}/image/upload`, body, {
+    onUploadProgress: (e) => onProgress(e.total ? (e.loaded / e.total) * 100 : 0)
+  });
+  return res.data.secure_url as string;
+};
+
+const ImageUploader: React.FC<ImageUploaderProps> = ({
+  label,
+  value,
+  onChange,
+  aspect,
+  allowAspectChange,
+  folder = 'posters',
+  error,
+  helperText,
+  disabled
+}) => {
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const [source, setSource] = useState<string | null>(null);
+  const [cropAspect, setCropAspect] = useState<PosterAspect>(aspect);
+  const [crop, setCrop] = useState({ x: 0, y: 0 });
+  const [zoom, setZoom] = useState(1);
+  const [area, setArea] = useState<Area | null>(null);
+  const [dragOver, setDragOver] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [uploadError, setUploadError] = useState('');
+
+  const openFile = (file?: File | null) => {
+    if (!file) return;
+    if (!file.type.startsWith('image/')) {
+      setUploadError('Please choose an image file');
+      return;
+    }
+    setUploadError('');
+    setCropAspect(aspect);
+    setCrop({ x: 0, y: 0 });
+    setZoom(1);
+    setSource(URL.createObjectURL(file));
+  };
+
+  const closeCropper = () => {
+    if (source) URL.revokeObjectURL(source);
+    setSource(null);
+  };
+
+  const handleUpload = async () => {
+    if (!source || !area) return;
+    setUploading(true);
+    setProgress(0);
+    setUploadError('');
+    try {
+      const blob = await cropToBlob(source, area, cropAspect);
+      const url = await uploadToCloudinary(blob, folder, setProgress);
+      onChange(url);
+      closeCropper();
+    } catch (err: any) {
+      // Cloudinary's own errors come back as { error: { message } } rather than our API's shape.
+      setUploadError(err?.response?.data?.error?.message || getErrorMessage(err, 'Upload failed'));
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <Stack spacing={1}>
+      <TextField
+        label={label}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        error={error}
+        helperText={helperText || 'Paste a URL, or drop an image below'}
+        disabled={disabled}
+        size="small"
+        fullWidth
+      />
+      <Box
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragOver(true);
+        }}
+        onDragLeave={() => setDragOver(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setDragOver(false);
+          if (!disabled) openFile(e.dataTransfer.files?.[0]);
+        }}
+        onClick={() => !disabled && inputRef.current?.click()}
+        sx={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: 2,
+          p: 1.5,
+          border: '1px dashed',
+          borderColor: dragOver ? 'primary.main' : '#cfd8dc',
+          bgcolor: dragOver ? '#e8f0ff' : '#fafafa',
+          borderRadius: 1,
+          cursor: disabled ? 'default' : 'pointer'
+        }}
+      >
+        {value ? (
+          <Box
+            component="img"
+            src={value}
+            alt={label}
+            sx={{
+              height: 90,
+              aspectRatio: String(ASPECTS[aspect].ratio),
+              objectFit: 'cover',
+              borderRadius: 0.5,
+              bgcolor: '#eee'
+            }}
+          />
+        ) : (
+          <CloudUploadIcon color="action" />
+        )}
+        <Typography variant="caption" color="text.secondary">
+          Drag an image here or click to choose a file ({ASPECTS[aspect].label})
+        </Typography>
+        <input
+          ref={inputRef}
+          type="file"
+          accept="image/*"
+          hidden
+          onChange={(e) => {
+            openFile(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
+      </Box>
+      {uploadError && !source && <Alert severity="error">{uploadError}</Alert>}
+
+      <Dialog open={!!source} onClose={() => !uploading && closeCropper()} maxWidth="md" fullWidth>
+        <DialogTitle>Crop {label}</DialogTitle>
+        <DialogContent sx={{ display: 'grid', gap: 2 }}>
+          {allowAspectChange && (
+            <ToggleButtonGroup
+              size="small"
+              exclusive
+              value={cropAspect}
+              onChange={(_, next) => next && setCropAspect(next)}
+            >
+              {(Object.keys(ASPECTS) as PosterAspect[]).map((key) => (
+                <ToggleButton key={key} value={key}>{ASPECTS[key].label}</ToggleButton>
+              ))}
+            </ToggleButtonGroup>
+          )}
+          <Box sx={{ position: 'relative', height: 400, bgcolor: '#222', borderRadius: 1, overflow: 'hidden' }}>
+            {source && (
+              <Cropper
+                image={source}
+                crop={crop}
+                zoom={zoom}
+                aspect={ASPECTS[cropAspect].ratio}
+                onCropChange={setCrop}
+                onZoomChange={setZoom}
+                onCropComplete={(_, pixels) => setArea(pixels)}
+              />
+            )}
+          </Box>
+          <Stack direction="row" spacing={2} alignItems="center">
+            <Typography variant="caption">Zoom</Typography>
+            <Slider min={1} max={4} step={0.05} value={zoom} onChange={(_, next) => setZoom(next as number)} />
+          </Stack>
+          {uploading && <LinearProgress variant="determinate" value={progress} />}
+          {uploadError && <Alert severity="error">{uploadError}</Alert>}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={closeCropper} disabled={uploading}>Cancel</Button>
+          <Button variant="contained" onClick={handleUpload} disabled={uploading || !area}>
+            {uploading ? 'Uploading…' : 'Crop & Upload'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Stack>
+  );
+};
+
+export default ImageUploader;
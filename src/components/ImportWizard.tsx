@@ -0,0 +1,378 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  LinearProgress,
+  MenuItem,
+  Paper,
+  Stack,
+  Step,
+  StepLabel,
+  Stepper,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography
+} from '@mui/material';
+import { getErrorMessage } from '../api';
+import { downloadFile, toCsv } from './ExportButton';
+import FileDropZone from './FileDropZone';
+
+export type ImportRecord = Record<string, unknown>;
+
+export interface ImportField {
+  key: string;
+  label: string;
+  required?: boolean;
+  // Extra header spellings that should map to this field automatically.
+  aliases?: string[];
+}
+
+export interface ImportValidationError {
+  message: string;
+  fieldErrors: Record<string, string>;
+}
+
+export interface ImportConfig<P> {
+  // Plural noun for headings, e.g. "movies".
+  noun: string;
+  fields: ImportField[];
+  // Turns a record keyed by field key into an API payload, converting strings from CSV as needed.
+  toPayload: (record: ImportRecord) => P;
+  validate: (payload: P) => ImportValidationError | null;
+  // Fills in blanks from an external catalogue; resolves to the payload unchanged when nothing matches.
+  enrich?: (payload: P) => Promise<P>;
+  create: (payload: P) => Promise<void>;
+  getTitle: (payload: P) => string;
+}
+
+interface PreviewRow<P> {
+  index: number;
+  source: ImportRecord;
+  payload: P;
+  error: ImportValidationError | null;
+  result?: 'created' | 'failed';
+  failure?: string;
+}
+
+const STEPS = ['Upload', 'Map columns', 'Preview', 'Import'];
+
+// Minimal RFC 4180 parser: quoted fields, escaped quotes and newlines inside quotes.
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((value) => value.trim() !== ''));
+};
+
+const parseFile = async (file: File): Promise<ImportRecord[]> => {
+  const text = (await file.text()).replace(/^\uFEFF/, '');
+  if (file.name.toLowerCase().endsWith('.json')) {
+    const data = JSON.parse(text);
+    const list = Array.isArray(data) ? data : data?.items || data?.movies || data?.series;
+    if (!Array.isArray(list)) throw new Error('JSON must be an array of objects');
+    return list.filter((item) => item && typeof item === 'object');
+  }
+  const [header, ...body] = parseCsv(text);
+  if (!header) throw new Error('The file is empty');
+  return body.map((cells) => Object.fromEntries(header.map((name, i) => [name.trim(), cells[i] ?? ''])));
+};
+
+// Column headers compare case- and punctuation-insensitively, so `Release Year` matches `releaseYear`.
+export const normalizeHeader = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const guessMapping = (fields: ImportField[], columns: string[]) =>
+  Object.fromEntries(
+    fields.map((field) => {
+      const names = [field.key, field.label, ...(field.aliases || [])].map(normalizeHeader);
+      return [field.key, columns.find((col) => names.includes(normalizeHeader(col))) || ''];
+    })
+  );
+
+// Helpers for config `toPayload` implementations.
+export const splitList = (value: unknown): string[] => {
+  if (Array.isArray(value)) return value.map(String).map((v) => v.trim()).filter(Boolean);
+  return String(value ?? '')
+    .split(/[;|,]/)
+    .map((v) => v.trim())
+    .filter(Boolean);
+};
+
+export const toNumber = (value: unknown, fallback = 0) => {
+  const num = Number(value);
+  return value === '' || value === undefined || value === null || Number.isNaN(num) ? fallback : num;
+};
+
+export const toBoolean = (value: unknown) => value === true || /^(true|yes|y|1)$/i.test(String(value ?? '').trim());
+
+interface ImportWizardProps<P> {
+  open: boolean;
+  config: ImportConfig<P>;
+  onClose: () => void;
+  // Called once after an import run that created at least one row.
+  onImported: () => void;
+}
+
+const ImportWizard = <P,>({ open, config, onClose, onImported }: ImportWizardProps<P>) => {
+  const [step, setStep] = useState(0);
+  const [fileName, setFileName] = useState('');
+  const [records, setRecords] = useState<ImportRecord[]>([]);
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [rows, setRows] = useState<PreviewRow<P>[]>([]);
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [progress, setProgress] = useState(0);
+
+  const columns = useMemo(() => Array.from(new Set(records.flatMap((record) => Object.keys(record)))), [records]);
+  const validCount = rows.filter((row) => !row.error).length;
+  const finished = rows.filter((row) => row.result).length;
+  const failedRows = rows.filter((row) => row.error || row.result === 'failed');
+
+  const reset = () => {
+    setStep(0);
+    setFileName('');
+    setRecords([]);
+    setMapping({});
+    setRows([]);
+    setError('');
+    setProgress(0);
+  };
+
+  const close = () => {
+    if (busy) return;
+    reset();
+    onClose();
+  };
+
+  const handleFile = async (file: File) => {
+    setError('');
+    try {
+      const parsed = await parseFile(file);
+      if (!parsed.length) throw new Error('No rows found in the file');
+      const cols = Array.from(new Set(parsed.flatMap((record) => Object.keys(record))));
+      setFileName(file.name);
+      setRecords(parsed);
+      setMapping(guessMapping(config.fields, cols));
+      setStep(1);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Could not read the file'));
+    }
+  };
+
+  const buildPreview = () => {
+    const missing = config.fields.filter((field) => field.required && !mapping[field.key]);
+    if (missing.length) {
+      setError(`Map a column for: ${missing.map((field) => field.label).join(', ')}`);
+      return;
+    }
+    setError('');
+    setRows(
+      records.map((source, index) => {
+        const mapped = Object.fromEntries(
+          config.fields.filter((field) => mapping[field.key]).map((field) => [field.key, source[mapping[field.key]]])
+        );
+        const payload = config.toPayload(mapped);
+        return { index: index + 1, source, payload, error: config.validate(payload) };
+      })
+    );
+    setStep(2);
+  };
+
+  const enrichAll = async () => {
+    if (!config.enrich) return;
+    setBusy(true);
+    setProgress(0);
+    const next = [...rows];
+    for (let i = 0; i < next.length; i++) {
+      try {
+        const payload = await config.enrich(next[i].payload);
+        next[i] = { ...next[i], payload, error: config.validate(payload) };
+      } catch {
+        // A failed lookup leaves the row as it was; the preview still shows its own errors.
+      }
+      setProgress(((i + 1) / next.length) * 100);
+    }
+    setRows(next);
+    setBusy(false);
+  };
+
+  const runImport = async () => {
+    setStep(3);
+    setBusy(true);
+    setProgress(0);
+    const next = [...rows];
+    const pending = next.filter((row) => !row.error);
+    let created = 0;
+    for (let i = 0; i < pending.length; i++) {
+      const pos = next.indexOf(pending[i]);
+      try {
+        await config.create(pending[i].payload);
+        next[pos] = { ...pending[i], result: 'created' };
+        created++;
+      } catch (err) {
+        next[pos] = { ...pending[i], result: 'failed', failure: getErrorMessage(err, 'Create failed') };
+      }
+      setRows([...next]);
+      setProgress(((i + 1) / pending.length) * 100);
+    }
+    setBusy(false);
+    if (created) onImported();
+  };
+
+  const downloadErrors = () => {
+    const errorColumns = [
+      { header: 'row', value: (row: PreviewRow<P>) => row.index },
+      { header: 'error', value: (row: PreviewRow<P>) => row.failure || row.error?.message },
+      ...columns.map((col) => ({ header: col, value: (row: PreviewRow<P>) => row.source[col] }))
+    ];
+    downloadFile(`${config.noun}-import-errors.csv`, toCsv(failedRows, errorColumns), 'text/csv;charset=utf-8');
+  };
+
+  return (
+    <Dialog open={open} onClose={close} maxWidth="lg" fullWidth>
+      <DialogTitle>Import {config.noun}</DialogTitle>
+      <DialogContent sx={{ display: 'grid', gap: 2 }}>
+        <Stepper activeStep={step} sx={{ pt: 1 }}>
+          {STEPS.map((label) => (
+            <Step key={label}><StepLabel>{label}</StepLabel></Step>
+          ))}
+        </Stepper>
+        {error && <Alert severity="error">{error}</Alert>}
+
+        {step === 0 && (
+          <FileDropZone
+            accept=".csv,.json,text/csv,application/json"
+            label="Drop a CSV or JSON file here, or click to choose one"
+            hint="CSV needs a header row. Lists such as genres can be separated with ; or |."
+            onFile={handleFile}
+          />
+        )}
+
+        {step === 1 && (
+          <Stack spacing={1}>
+            <Typography variant="body2" color="text.secondary">
+              {fileName} · {records.length} row(s). Choose which column fills each field.
+            </Typography>
+            <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill,minmax(240px,1fr))', gap: 2 }}>
+              {config.fields.map((field) => (
+                <TextField
+                  key={field.key}
+                  select
+                  size="small"
+                  label={`${field.label}${field.required ? ' *' : ''}`}
+                  value={mapping[field.key] || ''}
+                  onChange={(e) => setMapping((prev) => ({ ...prev, [field.key]: e.target.value }))}
+                >
+                  <MenuItem value="">(not imported)</MenuItem>
+                  {columns.map((col) => (
+                    <MenuItem key={col} value={col}>{col}</MenuItem>
+                  ))}
+                </TextField>
+              ))}
+            </Box>
+          </Stack>
+        )}
+
+        {step >= 2 && (
+          <Stack spacing={1}>
+            <Stack direction="row" spacing={1} alignItems="center">
+              <Chip size="small" color="success" label={`${validCount} ready`} />
+              <Chip size="small" color={rows.length - validCount ? 'error' : 'default'} label={`${rows.length - validCount} with errors`} />
+              {step === 3 && <Typography variant="body2">{finished} / {validCount} processed</Typography>}
+              <Box sx={{ flex: 1 }} />
+              {step === 2 && config.enrich && (
+                <Button size="small" onClick={enrichAll} disabled={busy}>{busy ? 'Looking up…' : 'Fill blanks from OMDB/IMDB'}</Button>
+              )}
+              {!busy && failedRows.length > 0 && <Button size="small" onClick={downloadErrors}>Download error file</Button>}
+            </Stack>
+            {busy && <LinearProgress variant="determinate" value={progress} />}
+            <Paper variant="outlined" sx={{ maxHeight: 420, overflow: 'auto' }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell width={60}>Row</TableCell>
+                    <TableCell>Title</TableCell>
+                    <TableCell>Status</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {rows.map((row) => (
+                    <TableRow key={row.index}>
+                      <TableCell>{row.index}</TableCell>
+                      <TableCell>{config.getTitle(row.payload) || <em>untitled</em>}</TableCell>
+                      <TableCell>
+                        {row.result === 'created' && <Chip size="small" color="success" label="Created" />}
+                        {row.result === 'failed' && <Typography variant="caption" color="error">{row.failure}</Typography>}
+                        {!row.result && row.error && (
+                          <Typography variant="caption" color="error">
+                            {row.error.message}
+                            {Object.values(row.error.fieldErrors).length > 0 && ` (${Object.values(row.error.fieldErrors).join('; ')})`}
+                          </Typography>
+                        )}
+                        {!row.result && !row.error && <Chip size="small" variant="outlined" label="Ready" />}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </Paper>
+          </Stack>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {step === 1 && <Button onClick={reset}>Choose another file</Button>}
+        {step === 2 && <Button onClick={() => setStep(1)} disabled={busy}>Back</Button>}
+        <Box sx={{ flex: 1 }} />
+        <Button onClick={close} disabled={busy}>{step === 3 && !busy ? 'Done' : 'Cancel'}</Button>
+        {step === 1 && <Button variant="contained" onClick={buildPreview}>Preview</Button>}
+        {step === 2 && (
+          <Button variant="contained" onClick={runImport} disabled={busy || !validCount}>
+            Import {validCount} {config.noun}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ImportWizard;
@@ -0,0 +1,177 @@
+import React, { useEffect, useState } from 'react';
+import { Link as RouterLink } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Alert, Box, Chip, Grid, Link, List, ListItem, ListItemText, Paper, Stack, Typography } from '@mui/material';
+import { analyticsApi, getErrorMessage, liveActivitySchema, queryKeys, type LiveEvent } from '../api';
+import { useAuth } from '../state/AuthContext';
+
+type LiveMode = 'connecting' | 'streaming' | 'polling';
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30 * 1000;
+// After this many failed connects in a row, stop hammering the stream and fall back to polling.
+const MAX_STREAM_FAILURES = 5;
+const STREAM_RETRY_MS = 2 * 60 * 1000;
+const POLL_INTERVAL_MS = 10 * 1000;
+
+const hasEventSource = typeof EventSource !== 'undefined';
+
+// Keeps the live-activity query fed from the server-sent-event stream, reconnecting with backoff.
+// While the stream is down the query polls instead, so the panel never goes stale for long.
+const useLiveActivity = () => {
+  const queryClient = useQueryClient();
+  const [mode, setMode] = useState<LiveMode>(hasEventSource ? 'connecting' : 'polling');
+
+  useEffect(() => {
+    if (!hasEventSource) return;
+    let source: EventSource | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let failures = 0;
+    let closed = false;
+
+    const retry = () => {
+      failures += 1;
+      if (failures >= MAX_STREAM_FAILURES) {
+        setMode('polling');
+        timer = setTimeout(connect, STREAM_RETRY_MS);
+        return;
+      }
+      setMode('connecting');
+      timer = setTimeout(connect, Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** (failures - 1)));
+    };
+
+    const connect = async () => {
+      // Tickets are single-use, so every attempt asks for a fresh one; the request goes through the
+      // API client and picks up its token refresh.
+      let ticket: string;
+      try {
+        ({ ticket } = await analyticsApi.liveStreamTicket());
+      } catch (_) {
+        if (!closed) retry();
+        return;
+      }
+      if (closed) return;
+
+      source = new EventSource(analyticsApi.liveStreamUrl(ticket));
+      source.onopen = () => {
+        failures = 0;
+        setMode('streaming');
+      };
+      source.onmessage = (event) => {
+        let body: unknown;
+        try {
+          body = JSON.parse(event.data);
+        } catch (_) {
+          return;
+        }
+        // A snapshot we can't read is skipped; the next one replaces it anyway.
+        const parsed = liveActivitySchema.safeParse(body);
+        if (parsed.success) queryClient.setQueryData(queryKeys.analytics.live(), parsed.data);
+      };
+      source.onerror = () => {
+        // EventSource retries on its own, but without backoff or a new ticket; take over instead.
+        source?.close();
+        source = null;
+        retry();
+      };
+    };
+
+    connect();
+    return () => {
+      closed = true;
+      clearTimeout(timer);
+      source?.close();
+    };
+  }, [queryClient]);
+
+  const liveQuery = useQuery({
+    queryKey: queryKeys.analytics.live(),
+    queryFn: analyticsApi.live,
+    // Poll whenever the stream isn't delivering, including while it reconnects.
+    enabled: mode !== 'streaming',
+    refetchInterval: POLL_INTERVAL_MS
+  });
+
+  return { mode, liveQuery };
+};
+
+const MODE_CHIPS: Record<LiveMode, { label: string; color: 'success' | 'warning' | 'default' }> = {
+  streaming: { label: 'Live', color: 'success' },
+  connecting: { label: 'Reconnecting…', color: 'warning' },
+  polling: { label: `Polling every ${POLL_INTERVAL_MS / 1000}s`, color: 'default' }
+};
+
+const describeEvent = (event: LiveEvent) => {
+  if (event.type === 'SIGNUP') return 'New signup';
+  return [event.event || 'Subscription', event.plan].filter(Boolean).join(' · ');
+};
+
+const LiveActivityPanel: React.FC = () => {
+  const { can } = useAuth();
+  const { mode, liveQuery } = useLiveActivity();
+  const data = liveQuery.data;
+  const chip = MODE_CHIPS[mode];
+  const events = [...(data?.recentEvents ?? [])].sort((a, b) => b.createdAt.localeCompare(a.createdAt)).slice(0, 10);
+
+  return (
+    <Paper sx={{ p: 2 }}>
+      <Stack direction="row" alignItems="center" spacing={1} mb={1}>
+        <Typography variant="h6" sx={{ flex: 1 }}>Live activity</Typography>
+        {data && (
+          <Typography variant="caption" color="text.secondary">
+            Updated {new Date(data.updatedAt).toLocaleTimeString()}
+          </Typography>
+        )}
+        <Chip size="small" color={chip.color} label={chip.label} />
+      </Stack>
+      {liveQuery.error && !data && <Alert severity="error">{getErrorMessage(liveQuery.error, 'Failed to load live activity')}</Alert>}
+      <Grid container spacing={2}>
+        <Grid item xs={12} md={3}>
+          <Typography variant="body2" color="text.secondary">Watching now</Typography>
+          <Typography variant="h3" fontWeight={600}>{data?.concurrentViewers ?? '--'}</Typography>
+        </Grid>
+        <Grid item xs={12} md={4}>
+          <Typography variant="subtitle2">Most watched right now</Typography>
+          {data?.topTitles.map((title) => (
+            <Stack key={title._id} direction="row" justifyContent="space-between" py={0.5}>
+              <Link
+                component={RouterLink}
+                to={title.contentType === 'MOVIE' ? `/content/${title._id}/analytics` : `/series/${title._id}/analytics`}
+                variant="body2"
+                underline="hover"
+              >
+                {title.title}
+              </Link>
+              <Typography variant="body2" color="text.secondary">{title.viewers} watching</Typography>
+            </Stack>
+          ))}
+          {data && !data.topTitles.length && <Typography variant="body2" color="text.secondary">Nobody is watching</Typography>}
+        </Grid>
+        <Grid item xs={12} md={5}>
+          <Typography variant="subtitle2">Recent signups & subscriptions</Typography>
+          <Box sx={{ maxHeight: 220, overflow: 'auto' }}>
+            <List dense disablePadding>
+              {events.map((event) => (
+                <ListItem key={event._id} disableGutters>
+                  <ListItemText
+                    primary={
+                      event.userId && can('users:view') ? (
+                        <Link component={RouterLink} to={`/users/${event.userId}`} underline="hover">{event.email || event.userId}</Link>
+                      ) : (
+                        event.email || 'Unknown user'
+                      )
+                    }
+                    secondary={`${describeEvent(event)} · ${new Date(event.createdAt).toLocaleTimeString()}`}
+                  />
+                </ListItem>
+              ))}
+            </List>
+            {data && !events.length && <Typography variant="body2" color="text.secondary">No recent events</Typography>}
+          </Box>
+        </Grid>
+      </Grid>
+    </Paper>
+  );
+};
+
+export default LiveActivityPanel;
@@ -0,0 +1,321 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  FormControlLabel,
+  IconButton,
+  Stack,
+  Switch,
+  TextField,
+  Typography
+} from '@mui/material';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { moviesApi, toApiError, type ImdbMovie, type Movie, type MoviePayload, type Taxonomy } from '../api';
+import {
+  CONTENT_RULES,
+  ContentInfoFields,
+  MaturityRatingSelect,
+  PosterFields,
+  TaxonomyStatus,
+  knownGenres,
+  useTaxonomy,
+  validateContent,
+  type ContentRule
+} from './ContentMetadata';
+import type { ChecklistItem } from './PublishDialog';
+import VideoUploader from './VideoUploader';
+
+export const movieChecklist = (movie: Movie): ChecklistItem[] => [
+  { label: 'Vertical and horizontal poster URLs present', ok: !!movie.poster?.vertical && !!movie.poster?.horizontal },
+  { label: 'Cloudflare Video ID set', ok: !!movie.cloudflareVideoId }
+];
+
+export const emptyMovie = (): MoviePayload => ({
+  title: '',
+  description: '',
+  genres: [],
+  language: '',
+  releaseYear: new Date().getFullYear(),
+  duration: 0,
+  rating: 0,
+  poster: { vertical: '', horizontal: '' },
+  trailerUrl: '',
+  cloudflareVideoId: '',
+  maturityRating: 'U',
+  isPremium: false,
+  imdbId: '',
+  director: '',
+  writer: '',
+  imdbRating: 0,
+  imdbLink: ''
+});
+
+// Copies every editable field off a stored movie. Anything left out here would be wiped on save, so the
+// IMDB enrichment fields must come along even when the form doesn't show them prominently.
+export const toMoviePayload = (movie: Movie): MoviePayload => ({
+  title: movie.title || '',
+  description: movie.description || '',
+  genres: movie.genres || [],
+  language: movie.language || '',
+  releaseYear: movie.releaseYear || new Date().getFullYear(),
+  duration: movie.duration || 0,
+  rating: movie.rating || 0,
+  poster: { vertical: movie.poster?.vertical || '', horizontal: movie.poster?.horizontal || '' },
+  trailerUrl: movie.trailerUrl || '',
+  cloudflareVideoId: movie.cloudflareVideoId || '',
+  maturityRating: movie.maturityRating || 'U',
+  isPremium: movie.isPremium || false,
+  publishAt: movie.publishAt || null,
+  imdbId: movie.imdbId || '',
+  imdbRating: movie.imdbRating || 0,
+  imdbLink: movie.imdbLink || '',
+  rated: movie.rated || '',
+  released: movie.released || '',
+  runtime: movie.runtime || '',
+  director: movie.director || '',
+  writer: movie.writer || '',
+  actors: movie.actors || '',
+  plot: movie.plot || '',
+  languages: movie.languages || '',
+  country: movie.country || '',
+  awards: movie.awards || '',
+  omdbPoster: movie.omdbPoster || '',
+  ratings: movie.ratings || []
+});
+
+const MOVIE_RULES: ContentRule<MoviePayload>[] = [
+  ...CONTENT_RULES,
+  { field: 'duration', label: 'duration', missing: (form) => (form.duration ? null : 'Duration is required') },
+  { field: 'cloudflareVideoId', label: 'Cloudflare Video ID', missing: (form) => (form.cloudflareVideoId ? null : 'Cloudflare Video ID required') }
+];
+
+export const validateMovie = (form: MoviePayload, taxonomy: Taxonomy) => validateContent(form, MOVIE_RULES, taxonomy);
+
+const IMDB_TEXT_FIELDS: Array<{ key: keyof MoviePayload; label: string; multiline?: boolean }> = [
+  { key: 'imdbId', label: 'IMDB ID' },
+  { key: 'imdbLink', label: 'IMDB Link' },
+  { key: 'rated', label: 'Rated' },
+  { key: 'released', label: 'Released' },
+  { key: 'runtime', label: 'Runtime' },
+  { key: 'director', label: 'Director' },
+  { key: 'writer', label: 'Writer' },
+  { key: 'actors', label: 'Actors' },
+  { key: 'languages', label: 'Languages' },
+  { key: 'country', label: 'Country' },
+  { key: 'awards', label: 'Awards' },
+  { key: 'omdbPoster', label: 'OMDB Poster URL' },
+  { key: 'plot', label: 'Plot', multiline: true }
+];
+
+interface MovieFormProps {
+  form: MoviePayload;
+  setForm: React.Dispatch<React.SetStateAction<MoviePayload>>;
+  fieldErrors: Record<string, string>;
+  disabled?: boolean;
+}
+
+// Stays disabled until the taxonomy has loaded; the pages hosting it hold back their save buttons too.
+const MovieForm: React.FC<MovieFormProps> = ({ form, setForm, fieldErrors, disabled: disabledProp }) => {
+  const taxonomyState = useTaxonomy();
+  const { taxonomy } = taxonomyState;
+  const disabled = disabledProp || !taxonomyState.ready;
+  const [imdbSearching, setImdbSearching] = useState(false);
+  const [imdbResults, setImdbResults] = useState<ImdbMovie[]>([]);
+
+  const updateField = (key: keyof MoviePayload, value: any) => {
+    setForm((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const handleImdbSearch = async (query: string) => {
+    if (!query || query.length < 2) {
+      setImdbResults([]);
+      return;
+    }
+
+    console.log('[IMDB Search] Starting search for:', query);
+    setImdbSearching(true);
+    try {
+      const results = await moviesApi.searchImdb(query);
+      setImdbResults(results);
+      console.log('[IMDB Search] Results set:', results.length, 'movies');
+    } catch (err) {
+      console.error('[IMDB Search] Error:', toApiError(err));
+      setImdbResults([]);
+    } finally {
+      setImdbSearching(false);
+    }
+  };
+
+  const fillMovieFromImdb = (imdbMovie: ImdbMovie) => {
+    // Auto-fill form with IMDB data
+    setForm((prev) => ({
+      ...prev,
+      title: imdbMovie.title || prev.title,
+      description: imdbMovie.plot || imdbMovie.description || prev.description,
+      releaseYear: imdbMovie.releaseYear || prev.releaseYear,
+      duration: imdbMovie.duration || prev.duration,
+      imdbRating: imdbMovie.imdbRating || prev.imdbRating,
+      imdbId: imdbMovie.imdbId || prev.imdbId,
+      imdbLink: imdbMovie.imdbLink || prev.imdbLink,
+      rated: imdbMovie.rated || prev.rated,
+      released: imdbMovie.released || prev.released,
+      runtime: imdbMovie.runtime || prev.runtime,
+      director: imdbMovie.director || prev.director,
+      writer: imdbMovie.writer || prev.writer,
+      actors: imdbMovie.actors || prev.actors,
+      plot: imdbMovie.plot || prev.plot,
+      languages: imdbMovie.languages || prev.languages,
+      country: imdbMovie.country || prev.country,
+      awards: imdbMovie.awards || prev.awards,
+      omdbPoster: imdbMovie.posterUrl || imdbMovie.poster || prev.omdbPoster,
+      ratings: imdbMovie.ratings || prev.ratings,
+      // Try to map IMDB genres to available genres
+      genres: knownGenres(imdbMovie.genres || [], taxonomy)
+    }));
+    setImdbResults([]);
+  };
+
+  const ratings = form.ratings || [];
+  const updateRating = (index: number, key: 'source' | 'value', value: string) => {
+    updateField('ratings', ratings.map((r, i) => (i === index ? { ...r, [key]: value } : r)));
+  };
+
+  return (
+    <Box sx={{ display: 'grid', gap: 2 }}>
+      <TaxonomyStatus state={taxonomyState} />
+      {/* IMDB Search Section */}
+      <Box sx={{ p: 2, bgcolor: '#f5f5f5', borderRadius: 1, border: '1px solid #ddd' }}>
+        <Typography variant="subtitle2" sx={{ mb: 1, fontWeight: 600 }}>🎬 Search IMDB (Optional)</Typography>
+        <TextField
+          label="Search movie by title"
+          placeholder="e.g., Inception, The Matrix..."
+          onChange={(e) => handleImdbSearch(e.target.value)}
+          disabled={disabled || imdbSearching}
+          fullWidth
+          size="small"
+        />
+        {imdbSearching && <Typography variant="caption" sx={{ mt: 1, display: 'block' }}>Searching...</Typography>}
+        {imdbResults.length > 0 && (
+          <Stack spacing={1} sx={{ mt: 2 }}>
+            {imdbResults.map((movie, idx) => (
+              <Box
+                key={idx}
+                sx={{
+                  p: 1.5,
+                  border: '1px solid #ddd',
+                  borderRadius: 1,
+                  bgcolor: 'white',
+                  cursor: 'pointer',
+                  '&:hover': { bgcolor: '#f9f9f9' }
+                }}
+                onClick={() => fillMovieFromImdb(movie)}
+              >
+                <Stack direction="row" spacing={2}>
+                  {movie.posterUrl && (
+                    <Box
+                      component="img"
+                      src={movie.posterUrl}
+                      sx={{ width: 50, height: 75, objectFit: 'cover', borderRadius: 0.5 }}
+                    />
+                  )}
+                  <Stack spacing={0.5} flex={1}>
+                    <Typography variant="body2" sx={{ fontWeight: 600 }}>{movie.title}</Typography>
+                    <Typography variant="caption">⭐ {movie.imdbRating}/10 • {movie.year || movie.releaseYear}</Typography>
+                    {movie.rated && <Typography variant="caption" sx={{ color: '#666' }}>Rated: {movie.rated}</Typography>}
+                    <Typography variant="caption" sx={{ color: '#666' }}>Dir: {movie.director}</Typography>
+                    <Typography variant="caption" sx={{ color: '#666' }}>Cast: {movie.actors}</Typography>
+                  </Stack>
+                </Stack>
+              </Box>
+            ))}
+          </Stack>
+        )}
+      </Box>
+
+      {/* Basic Movie Info */}
+      <ContentInfoFields
+        form={form}
+        onChange={(changes) => setForm((prev) => ({ ...prev, ...changes }))}
+        taxonomy={taxonomy}
+        fieldErrors={fieldErrors}
+        disabled={disabled}
+      >
+        <TextField label="Duration (min)" type="number" value={form.duration} onChange={(e) => updateField('duration', Number(e.target.value))} disabled={disabled} error={!!fieldErrors.duration} helperText={fieldErrors.duration} />
+        <TextField label="Rating" type="number" value={form.rating ?? 0} onChange={(e) => updateField('rating', Number(e.target.value))} disabled={disabled} />
+      </ContentInfoFields>
+
+      {/* IMDB Enrichment Fields */}
+      <Box sx={{ p: 2, bgcolor: '#e3f2fd', borderRadius: 1, border: '1px solid #90caf9', display: 'grid', gap: 2 }}>
+        <Stack direction="row" spacing={2} alignItems="center">
+          <Typography variant="subtitle2" sx={{ fontWeight: 600, flex: 1 }}>📋 IMDB Enrichment Data</Typography>
+          {form.omdbPoster && <Box component="img" src={form.omdbPoster} alt="OMDB poster" sx={{ height: 60, borderRadius: 0.5 }} />}
+        </Stack>
+        <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit,minmax(220px,1fr))', gap: 2 }}>
+          <TextField label="IMDB Rating" type="number" size="small" value={form.imdbRating ?? 0} onChange={(e) => updateField('imdbRating', Number(e.target.value))} disabled={disabled} />
+          {IMDB_TEXT_FIELDS.map(({ key, label, multiline }) => (
+            <TextField
+              key={key}
+              label={label}
+              size="small"
+              value={(form[key] as string | undefined) || ''}
+              onChange={(e) => updateField(key, e.target.value)}
+              multiline={multiline}
+              minRows={multiline ? 2 : undefined}
+              disabled={disabled}
+              sx={multiline ? { gridColumn: '1 / -1' } : undefined}
+            />
+          ))}
+        </Box>
+        <Stack spacing={1}>
+          <Typography variant="caption" sx={{ fontWeight: 600 }}>📊 Ratings</Typography>
+          {ratings.map((r, i) => (
+            <Stack key={i} direction="row" spacing={1} alignItems="center">
+              <TextField label="Source" size="small" value={r.source} onChange={(e) => updateRating(i, 'source', e.target.value)} disabled={disabled} />
+              <TextField label="Value" size="small" value={r.value} onChange={(e) => updateRating(i, 'value', e.target.value)} disabled={disabled} />
+              <IconButton size="small" onClick={() => updateField('ratings', ratings.filter((_, j) => j !== i))} disabled={disabled}>
+                <DeleteIcon fontSize="small" />
+              </IconButton>
+            </Stack>
+          ))}
+          <Box>
+            <Button size="small" onClick={() => updateField('ratings', [...ratings, { source: '', value: '' }])} disabled={disabled}>Add rating</Button>
+          </Box>
+        </Stack>
+      </Box>
+
+      <PosterFields
+        poster={form.poster}
+        onChange={(side, url) => setForm((prev) => ({ ...prev, poster: { ...prev.poster, [side]: url } }))}
+        folder="movies"
+        fieldErrors={fieldErrors}
+        disabled={disabled}
+      />
+      <TextField label="Trailer URL" value={form.trailerUrl} onChange={(e) => updateField('trailerUrl', e.target.value)} fullWidth disabled={disabled} />
+      <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit,minmax(220px,1fr))', gap: 2 }}>
+        <TextField
+          label="Cloudflare Video ID"
+          value={form.cloudflareVideoId}
+          onChange={(e) => updateField('cloudflareVideoId', e.target.value)}
+          disabled={disabled}
+          error={!!fieldErrors.cloudflareVideoId}
+          helperText={fieldErrors.cloudflareVideoId || "Paste an existing ID or upload a file below"}
+        />
+        <MaturityRatingSelect
+          taxonomy={taxonomy}
+          value={form.maturityRating}
+          onChange={(rating) => updateField('maturityRating', rating)}
+          disabled={disabled}
+          error={!!fieldErrors.maturityRating}
+          helperText={fieldErrors.maturityRating}
+        />
+      </Box>
+      <VideoUploader
+        disabled={disabled}
+        onUploaded={({ videoId, duration }) => setForm((prev) => ({ ...prev, cloudflareVideoId: videoId, duration: duration || prev.duration }))}
+      />
+      <FormControlLabel control={<Switch checked={form.isPremium} onChange={(e) => updateField('isPremium', e.target.checked)} disabled={disabled} />} label="Premium" />
+    </Box>
+  );
+};
+
+export default MovieForm;
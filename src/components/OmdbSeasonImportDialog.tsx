@@ -0,0 +1,325 @@
+import React, { Fragment, useEffect, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Checkbox,
+  Chip,
+  Collapse,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  LinearProgress,
+  List,
+  ListItemButton,
+  ListItemText,
+  Paper,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography
+} from '@mui/material';
+import ExpandLessIcon from '@mui/icons-material/ExpandLess';
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
+import {
+  getErrorMessage,
+  omdbApi,
+  type EpisodePayload,
+  type OmdbEpisode,
+  type OmdbSearchResult,
+  type OmdbSeason,
+  type Series
+} from '../api';
+import { parseIsoDate } from './DateRangeControls';
+
+// One season's worth of work for the importer: the episodes to create, and whether the season itself
+// has to be created first.
+export interface SeasonImport {
+  seasonNumber: number;
+  createSeason: boolean;
+  releaseDate: string | null;
+  episodes: EpisodePayload[];
+}
+
+// Skeletons: the video and thumbnail (and any plot or runtime OMDB lacks) are filled in later; until
+// then the episode list flags the episode as incomplete.
+const toEpisode = (episode: OmdbEpisode): EpisodePayload => ({
+  episodeNumber: episode.episodeNumber,
+  title: episode.title || `Episode ${episode.episodeNumber}`,
+  description: episode.plot,
+  duration: episode.runtime ?? 0,
+  cloudflareVideoId: '',
+  thumbnail: '',
+  airDate: episode.released ?? null
+});
+
+// As a plain yyyy-mm-dd, the form season release dates are stored in.
+const firstAired = (season: OmdbSeason) =>
+  season.episodes
+    .map((episode) => episode.released?.slice(0, 10))
+    .filter((date): date is string => !!date)
+    .sort()[0] ?? null;
+
+// OMDB dates are calendar days; reading them as local dates keeps them from shifting west of UTC.
+const formatDate = (iso?: string | null) => (iso ? parseIsoDate(iso.slice(0, 10)).toLocaleDateString() : '—');
+
+interface OmdbSeasonImportDialogProps {
+  open: boolean;
+  series: Series;
+  onClose: () => void;
+  // Receives the OMDB id so the page can link it to the series if it wasn't already.
+  onImport: (imdbId: string, seasons: SeasonImport[]) => Promise<void>;
+}
+
+const OmdbSeasonImportDialog: React.FC<OmdbSeasonImportDialogProps> = ({ open, series, onClose, onImport }) => {
+  const [imdbId, setImdbId] = useState('');
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<OmdbSearchResult[]>([]);
+  const [seasons, setSeasons] = useState<OmdbSeason[]>([]);
+  const [selected, setSelected] = useState<number[]>([]);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState('');
+
+  const existing = new Map((series.seasons || []).map((season) => [season.seasonNumber, season]));
+
+  // Existing episodes are never overwritten; only numbers the season doesn't have yet are imported.
+  const newEpisodes = (season: OmdbSeason) => {
+    const taken = new Set(existing.get(season.seasonNumber)?.episodes.map((episode) => episode.episodeNumber));
+    return season.episodes.filter((episode) => !taken.has(episode.episodeNumber));
+  };
+
+  const loadSeasons = async (id: string) => {
+    setImdbId(id);
+    setResults([]);
+    setLoading(true);
+    setError('');
+    try {
+      const data = await omdbApi.getSeasons(id);
+      setSeasons(data);
+      setSelected(data.filter((season) => newEpisodes(season).length).map((season) => season.seasonNumber));
+    } catch (err) {
+      setSeasons([]);
+      setError(getErrorMessage(err, 'Failed to load seasons from OMDB'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!open) return;
+    setQuery(series.title);
+    setResults([]);
+    setSeasons([]);
+    setSelected([]);
+    setExpanded(null);
+    setError('');
+    setImdbId(series.imdbId || '');
+    if (series.imdbId) loadSeasons(series.imdbId);
+  }, [open]);
+
+  const handleSearch = async () => {
+    if (!query.trim()) return;
+    setLoading(true);
+    setError('');
+    try {
+      const found = await omdbApi.searchSeries(query.trim());
+      setResults(found);
+      if (!found.length) setError('No series found. Try a different title.');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Search failed. Please try again.'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const plan: SeasonImport[] = seasons
+    .filter((season) => selected.includes(season.seasonNumber))
+    .map((season) => ({
+      seasonNumber: season.seasonNumber,
+      createSeason: !existing.has(season.seasonNumber),
+      releaseDate: firstAired(season),
+      episodes: newEpisodes(season).map(toEpisode)
+    }))
+    .filter((season) => season.createSeason || season.episodes.length);
+  const episodeCount = plan.reduce((sum, season) => sum + season.episodes.length, 0);
+
+  const toggle = (seasonNumber: number) =>
+    setSelected((prev) => (prev.includes(seasonNumber) ? prev.filter((n) => n !== seasonNumber) : [...prev, seasonNumber]));
+
+  const submit = async () => {
+    setImporting(true);
+    setError('');
+    try {
+      await onImport(imdbId, plan);
+      onClose();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Import failed'));
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const busy = loading || importing;
+
+  return (
+    <Dialog open={open} onClose={importing ? undefined : onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Import seasons from OMDB</DialogTitle>
+      <DialogContent sx={{ display: 'grid', gap: 2 }}>
+        {error && <Alert severity="error">{error}</Alert>}
+
+        {imdbId ? (
+          <Stack direction="row" spacing={1} alignItems="center">
+            <Typography variant="body2">
+              Linked to OMDB title <strong>{imdbId}</strong>
+            </Typography>
+            <Button
+              size="small"
+              onClick={() => {
+                setImdbId('');
+                setSeasons([]);
+              }}
+              disabled={busy}
+            >
+              Change
+            </Button>
+          </Stack>
+        ) : (
+          <Stack spacing={1}>
+            <Typography variant="body2" color="text.secondary">
+              This series isn't linked to an OMDB title yet. Find it to import its seasons.
+            </Typography>
+            <Stack direction="row" spacing={1}>
+              <TextField
+                size="small"
+                label="Series title"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
+                fullWidth
+              />
+              <Button variant="outlined" onClick={handleSearch} disabled={busy || !query.trim()}>
+                Search
+              </Button>
+            </Stack>
+            {results.length > 0 && (
+              <Paper variant="outlined" sx={{ maxHeight: 240, overflow: 'auto' }}>
+                <List dense disablePadding>
+                  {results.map((result) => (
+                    <ListItemButton key={result.id} onClick={() => loadSeasons(result.id)}>
+                      <ListItemText
+                        primary={result.title}
+                        secondary={[result.startYear, result.endYear].filter(Boolean).join('–') || result.id}
+                      />
+                    </ListItemButton>
+                  ))}
+                </List>
+              </Paper>
+            )}
+          </Stack>
+        )}
+
+        {busy && <LinearProgress />}
+
+        {imdbId && !loading && seasons.length > 0 && (
+          <Paper variant="outlined" sx={{ maxHeight: 420, overflow: 'auto' }}>
+            <Table size="small" stickyHeader>
+              <TableHead>
+                <TableRow>
+                  <TableCell padding="checkbox" />
+                  <TableCell>Season</TableCell>
+                  <TableCell>First aired</TableCell>
+                  <TableCell>Episodes</TableCell>
+                  <TableCell>Status</TableCell>
+                  <TableCell padding="checkbox" />
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {seasons.map((season) => {
+                  const fresh = newEpisodes(season).length;
+                  const exists = existing.has(season.seasonNumber);
+                  const isExpanded = expanded === season.seasonNumber;
+                  return (
+                    <Fragment key={season.seasonNumber}>
+                      <TableRow hover>
+                        <TableCell padding="checkbox">
+                          <Checkbox
+                            checked={selected.includes(season.seasonNumber)}
+                            onChange={() => toggle(season.seasonNumber)}
+                            disabled={importing || (exists && !fresh)}
+                          />
+                        </TableCell>
+                        <TableCell>Season {season.seasonNumber}</TableCell>
+                        <TableCell>{formatDate(firstAired(season))}</TableCell>
+                        <TableCell>{season.episodes.length}</TableCell>
+                        <TableCell>
+                          {!exists ? (
+                            <Chip size="small" color="primary" label="New season" />
+                          ) : fresh ? (
+                            <Chip size="small" variant="outlined" label={`${fresh} new episode${fresh === 1 ? '' : 's'}`} />
+                          ) : (
+                            <Chip size="small" label="Up to date" />
+                          )}
+                        </TableCell>
+                        <TableCell padding="checkbox">
+                          <IconButton size="small" onClick={() => setExpanded(isExpanded ? null : season.seasonNumber)}>
+                            {isExpanded ? <ExpandLessIcon fontSize="small" /> : <ExpandMoreIcon fontSize="small" />}
+                          </IconButton>
+                        </TableCell>
+                      </TableRow>
+                      <TableRow>
+                        <TableCell colSpan={6} sx={{ py: 0, borderBottom: isExpanded ? undefined : 'none' }}>
+                          <Collapse in={isExpanded} unmountOnExit>
+                            <Table size="small" sx={{ my: 1 }}>
+                              <TableBody>
+                                {season.episodes.map((episode) => (
+                                  <TableRow key={episode.episodeNumber}>
+                                    <TableCell width={40}>{episode.episodeNumber}</TableCell>
+                                    <TableCell>
+                                      <Typography variant="body2">{episode.title || `Episode ${episode.episodeNumber}`}</Typography>
+                                      <Typography variant="caption" color="text.secondary">{episode.plot || 'No plot'}</Typography>
+                                    </TableCell>
+                                    <TableCell sx={{ whiteSpace: 'nowrap' }}>{formatDate(episode.released)}</TableCell>
+                                    <TableCell sx={{ whiteSpace: 'nowrap' }}>{episode.runtime ? `${episode.runtime} min` : '—'}</TableCell>
+                                  </TableRow>
+                                ))}
+                              </TableBody>
+                            </Table>
+                          </Collapse>
+                        </TableCell>
+                      </TableRow>
+                    </Fragment>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </Paper>
+        )}
+
+        {imdbId && !loading && !seasons.length && !error && (
+          <Typography variant="body2" color="text.secondary">OMDB has no season listings for this title.</Typography>
+        )}
+
+        {episodeCount > 0 && (
+          <Alert severity="info">
+            Episodes are created without a video or thumbnail and are flagged as incomplete in the episode list until they are filled in.
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={importing}>Cancel</Button>
+        <Button variant="contained" onClick={submit} disabled={busy || !plan.length}>
+          {importing ? 'Importing…' : `Import ${episodeCount} episode${episodeCount === 1 ? '' : 's'}`}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default OmdbSeasonImportDialog;
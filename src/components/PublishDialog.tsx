@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  TextField,
+  Typography
+} from '@mui/material';
+import CheckCircleIcon from '@mui/icons-material/CheckCircle';
+import CancelIcon from '@mui/icons-material/Cancel';
+import { getErrorMessage } from '../api';
+
+export type PublishStatus = 'DRAFT' | 'SCHEDULED' | 'LIVE' | 'UNPUBLISHED';
+
+export interface Publishable {
+  isPublished: boolean;
+  publishAt?: string | null;
+  publishedAt?: string | null;
+}
+
+export interface ChecklistItem {
+  label: string;
+  ok: boolean;
+}
+
+const STATUS_LABELS: Record<PublishStatus, { label: string; color: 'default' | 'info' | 'success' | 'warning' }> = {
+  DRAFT: { label: 'Draft', color: 'default' },
+  SCHEDULED: { label: 'Scheduled', color: 'info' },
+  LIVE: { label: 'Live', color: 'success' },
+  UNPUBLISHED: { label: 'Unpublished', color: 'warning' }
+};
+
+export const getPublishStatus = (item: Publishable): PublishStatus => {
+  if (item.isPublished) return 'LIVE';
+  if (item.publishAt && new Date(item.publishAt).getTime() > Date.now()) return 'SCHEDULED';
+  // A title that has been live before but is no longer published was taken down on purpose.
+  if (item.publishedAt) return 'UNPUBLISHED';
+  return 'DRAFT';
+};
+
+export const PublishStatusChip: React.FC<{ item: Publishable }> = ({ item }) => {
+  const status = getPublishStatus(item);
+  const { label, color } = STATUS_LABELS[status];
+  const title = status === 'SCHEDULED' && item.publishAt ? `${label} · ${new Date(item.publishAt).toLocaleString()}` : label;
+  return <Chip size="small" label={title} color={color} variant={status === 'LIVE' ? 'filled' : 'outlined'} />;
+};
+
+// datetime-local inputs work in local time without a zone suffix.
+const toLocalInput = (iso?: string | null) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+interface PublishDialogProps {
+  open: boolean;
+  title: string;
+  checklist: ChecklistItem[];
+  initialPublishAt?: string | null;
+  onClose: () => void;
+  onPublish: (publishAt: string | null) => Promise<void>;
+}
+
+const PublishDialog: React.FC<PublishDialogProps> = ({ open, title, checklist, initialPublishAt, onClose, onPublish }) => {
+  const [publishAt, setPublishAt] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setPublishAt(toLocalInput(initialPublishAt));
+      setError('');
+    }
+  }, [open, initialPublishAt]);
+
+  const ready = checklist.every((item) => item.ok);
+  const scheduled = !!publishAt && new Date(publishAt).getTime() > Date.now();
+
+  const submit = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      await onPublish(scheduled ? new Date(publishAt).toISOString() : null);
+      onClose();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Publish failed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Publish “{title}”</DialogTitle>
+      <DialogContent sx={{ display: 'grid', gap: 2, pt: 2 }}>
+        {error && <Alert severity="error">{error}</Alert>}
+        <Typography variant="subtitle2">Pre-publish checklist</Typography>
+        <List dense disablePadding>
+          {checklist.map((item) => (
+            <ListItem key={item.label} disableGutters>
+              <ListItemIcon sx={{ minWidth: 32 }}>
+                {item.ok ? <CheckCircleIcon color="success" fontSize="small" /> : <CancelIcon color="error" fontSize="small" />}
+              </ListItemIcon>
+              <ListItemText primary={item.label} />
+            </ListItem>
+          ))}
+        </List>
+        {!ready && <Alert severity="warning">Fix the failing checks before publishing.</Alert>}
+        <TextField
+          label="Schedule publish at"
+          type="datetime-local"
+          value={publishAt}
+          onChange={(e) => setPublishAt(e.target.value)}
+          InputLabelProps={{ shrink: true }}
+          helperText="Leave empty to publish immediately"
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={submit} disabled={!ready || saving}>
+          {saving ? 'Saving…' : scheduled ? 'Schedule' : 'Publish now'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default PublishDialog;
@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  Stack,
+  Switch,
+  TextField
+} from '@mui/material';
+import { getErrorMessage, type Season, type SeasonPayload } from '../api';
+import ImageUploader from './ImageUploader';
+
+// The release date is a calendar date and is stored as the input's yyyy-mm-dd, with no timezone to shift
+// it. Older seasons hold a full ISO timestamp; its date part is the same day.
+const toDateInput = (value?: string | null) => (value ? value.slice(0, 10) : '');
+const fromDateInput = (value: string) => value || null;
+
+const emptySeason = (seasonNumber: number): SeasonPayload => ({
+  seasonNumber,
+  title: '',
+  synopsis: '',
+  poster: '',
+  releaseDate: null,
+  isPremium: false
+});
+
+interface SeasonDialogProps {
+  open: boolean;
+  // The season being edited, or null to create one.
+  season: Season | null;
+  // Numbers already taken by other seasons of the series.
+  takenNumbers: number[];
+  // Premium series are premium in every season, so the per-season switch is moot.
+  seriesIsPremium: boolean;
+  onClose: () => void;
+  onSave: (payload: SeasonPayload) => Promise<void>;
+}
+
+const SeasonDialog: React.FC<SeasonDialogProps> = ({ open, season, takenNumbers, seriesIsPremium, onClose, onSave }) => {
+  const [form, setForm] = useState<SeasonPayload>(emptySeason(1));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const nextNumber = Math.max(0, ...takenNumbers) + 1;
+
+  // Filled in when the dialog opens, not when the season numbers change: a save that renumbers
+  // refreshes the series while the dialog is still open.
+  useEffect(() => {
+    if (!open) return;
+    setForm(
+      season
+        ? {
+            seasonNumber: season.seasonNumber,
+            title: season.title,
+            synopsis: season.synopsis,
+            poster: season.poster,
+            releaseDate: season.releaseDate ?? null,
+            isPremium: season.isPremium
+          }
+        : emptySeason(nextNumber)
+    );
+    setError('');
+  }, [open, season]);
+
+  const numberTaken = takenNumbers.includes(form.seasonNumber);
+  const numberInvalid = !Number.isInteger(form.seasonNumber) || form.seasonNumber < 1;
+
+  const submit = async () => {
+    if (numberInvalid || numberTaken) return;
+    setSaving(true);
+    setError('');
+    try {
+      await onSave({ ...form, title: form.title.trim(), synopsis: form.synopsis.trim() });
+      onClose();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to save season'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>{season ? `Edit Season ${season.seasonNumber}` : 'Add Season'}</DialogTitle>
+      <DialogContent sx={{ display: 'grid', gap: 2, pt: 2 }}>
+        {error && <Alert severity="error">{error}</Alert>}
+        <Stack direction="row" spacing={2} sx={{ pt: 1 }}>
+          <TextField
+            label="Season number"
+            type="number"
+            value={form.seasonNumber}
+            onChange={(e) => setForm((prev) => ({ ...prev, seasonNumber: Number(e.target.value) }))}
+            error={numberInvalid || numberTaken}
+            helperText={
+              numberInvalid
+                ? 'Must be a whole number from 1'
+                : numberTaken
+                  ? `Season ${form.seasonNumber} already exists`
+                  : season && form.seasonNumber !== season.seasonNumber
+                    ? 'Episodes move with the season'
+                    : ' '
+            }
+            sx={{ width: 180 }}
+          />
+          <TextField
+            label="Release date"
+            type="date"
+            value={toDateInput(form.releaseDate)}
+            onChange={(e) => setForm((prev) => ({ ...prev, releaseDate: fromDateInput(e.target.value) }))}
+            InputLabelProps={{ shrink: true }}
+            helperText=" "
+            fullWidth
+          />
+        </Stack>
+        <TextField
+          label="Title"
+          placeholder={`Season ${form.seasonNumber}`}
+          value={form.title}
+          onChange={(e) => setForm((prev) => ({ ...prev, title: e.target.value }))}
+        />
+        <TextField
+          label="Synopsis"
+          value={form.synopsis}
+          onChange={(e) => setForm((prev) => ({ ...prev, synopsis: e.target.value }))}
+          multiline
+          minRows={3}
+        />
+        <ImageUploader
+          label="Season poster URL (Cloudinary)"
+          aspect="vertical"
+          folder="seasons"
+          value={form.poster}
+          onChange={(url) => setForm((prev) => ({ ...prev, poster: url }))}
+          helperText="Leave empty to use the series poster"
+        />
+        <FormControlLabel
+          control={
+            <Switch
+              checked={seriesIsPremium || form.isPremium}
+              onChange={(e) => setForm((prev) => ({ ...prev, isPremium: e.target.checked }))}
+              disabled={seriesIsPremium}
+            />
+          }
+          label={seriesIsPremium ? 'Premium (the whole series is premium)' : 'Premium season'}
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={submit} disabled={saving || numberInvalid || numberTaken}>
+          {saving ? 'Saving…' : 'Save'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default SeasonDialog;
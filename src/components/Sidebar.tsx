@@ -1,26 +1,33 @@
 import React from 'react';
 import { Box, List, ListItemButton, ListItemIcon, ListItemText, Toolbar } from '@mui/material';
 import DashboardIcon from '@mui/icons-material/SpaceDashboard';
+import InsightsIcon from '@mui/icons-material/Insights';
 import MovieIcon from '@mui/icons-material/MovieCreation';
 import LiveTvIcon from '@mui/icons-material/LiveTv';
 import PeopleIcon from '@mui/icons-material/People';
+import RuleIcon from '@mui/icons-material/Rule';
 import HealthIcon from '@mui/icons-material/HealthAndSafety';
 import { NavLink } from 'react-router-dom';
+import { useAuth } from '../state/AuthContext';
+import type { Permission } from '../state/permissions';
 
-const items = [
-  { to: '/', label: 'Dashboard', icon: <DashboardIcon /> },
-  { to: '/content', label: 'Content', icon: <MovieIcon /> },
-  { to: '/series', label: 'Series', icon: <LiveTvIcon /> },
-  { to: '/users', label: 'Users', icon: <PeopleIcon /> },
-  { to: '/health', label: 'Integrations', icon: <HealthIcon /> }
+const items: Array<{ to: string; label: string; icon: React.ReactNode; permission: Permission }> = [
+  { to: '/', label: 'Dashboard', icon: <DashboardIcon />, permission: 'analytics:view' },
+  { to: '/cohorts', label: 'Cohorts', icon: <InsightsIcon />, permission: 'analytics:view' },
+  { to: '/content', label: 'Content', icon: <MovieIcon />, permission: 'content:view' },
+  { to: '/series', label: 'Series', icon: <LiveTvIcon />, permission: 'content:view' },
+  { to: '/metadata', label: 'Metadata', icon: <RuleIcon />, permission: 'content:edit' },
+  { to: '/users', label: 'Users', icon: <PeopleIcon />, permission: 'users:view' },
+  { to: '/health', label: 'Integrations', icon: <HealthIcon />, permission: 'integrations:view' }
 ];
 
 const Sidebar: React.FC = () => {
+  const { can } = useAuth();
   return (
     <Box sx={{ width: 240, flexShrink: 0, borderRight: '1px solid #e5e7eb' }}>
       <Toolbar />
       <List>
-        {items.map((item) => (
+        {items.filter((item) => can(item.permission)).map((item) => (
           <ListItemButton
             key={item.to}
             component={NavLink}
@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  MenuItem,
+  Stack,
+  Switch,
+  TextField
+} from '@mui/material';
+import { getErrorMessage, type AdminUser, type SubscriptionUpdate } from '../api';
+
+export const PLANS = ['FREE', 'BASIC', 'PREMIUM'];
+export const SUBSCRIPTION_STATUSES = ['ACTIVE', 'TRIAL', 'PAST_DUE', 'CANCELLED', 'EXPIRED'];
+const COMPLIMENTARY_MONTHS = [1, 3, 6, 12];
+
+// Date inputs work with yyyy-mm-dd; the API stores full ISO timestamps. Both directions, and the
+// month arithmetic below, use the UTC calendar so a date never shifts by a day on the way through.
+const toDateInput = (iso?: string | null) => (iso ? iso.slice(0, 10) : '');
+const fromDateInput = (value: string) => (value ? new Date(`${value}T00:00:00Z`).toISOString() : null);
+const todayInput = () => new Date().toISOString().slice(0, 10);
+
+// Clamps to the last day of the target month, so 31 Jan plus one month is the end of February.
+const addMonths = (from: string, months: number) => {
+  const [year, month, day] = from.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month - 1 + months, Math.min(day, lastDay))).toISOString().slice(0, 10);
+};
+
+interface SubscriptionDialogProps {
+  user: AdminUser | null;
+  onClose: () => void;
+  onSave: (update: SubscriptionUpdate) => Promise<void>;
+}
+
+const SubscriptionDialog: React.FC<SubscriptionDialogProps> = ({ user, onClose, onSave }) => {
+  const [plan, setPlan] = useState('FREE');
+  const [status, setStatus] = useState('ACTIVE');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [complimentary, setComplimentary] = useState(false);
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!user) return;
+    const { subscription } = user;
+    setPlan(subscription.plan);
+    setStatus(subscription.status);
+    setStartDate(toDateInput(subscription.startDate));
+    setEndDate(toDateInput(subscription.endDate));
+    setComplimentary(!!subscription.complimentary);
+    setReason('');
+    setError('');
+  }, [user]);
+
+  const grantComplimentary = (months: number) => {
+    const start = todayInput();
+    setComplimentary(true);
+    setStatus('ACTIVE');
+    if (plan === 'FREE') setPlan('PREMIUM');
+    setStartDate(start);
+    setEndDate(addMonths(start, months));
+  };
+
+  const datesInvalid = !!startDate && !!endDate && endDate < startDate;
+
+  const submit = async () => {
+    if (!reason.trim()) {
+      setError('Give a reason for this change');
+      return;
+    }
+    if (complimentary && !endDate) {
+      setError('A complimentary period needs an end date');
+      return;
+    }
+    setSaving(true);
+    setError('');
+    try {
+      await onSave({
+        plan,
+        status,
+        startDate: fromDateInput(startDate),
+        endDate: fromDateInput(endDate),
+        complimentary,
+        reason: reason.trim()
+      });
+      onClose();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to update subscription'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!user} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Subscription · {user?.email}</DialogTitle>
+      <DialogContent sx={{ display: 'grid', gap: 2, pt: 2 }}>
+        {error && <Alert severity="error">{error}</Alert>}
+        <Stack direction="row" spacing={2} sx={{ pt: 1 }}>
+          <TextField select label="Plan" value={plan} onChange={(e) => setPlan(e.target.value)} fullWidth>
+            {PLANS.map((option) => (
+              <MenuItem key={option} value={option}>{option}</MenuItem>
+            ))}
+          </TextField>
+          <TextField select label="Status" value={status} onChange={(e) => setStatus(e.target.value)} fullWidth>
+            {SUBSCRIPTION_STATUSES.map((option) => (
+              <MenuItem key={option} value={option}>{option}</MenuItem>
+            ))}
+          </TextField>
+        </Stack>
+        <Stack direction="row" spacing={2}>
+          <TextField
+            label="Start date"
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+            fullWidth
+          />
+          <TextField
+            label="End date"
+            type="date"
+            value={endDate}
+            onChange={(e) => setEndDate(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+            error={datesInvalid}
+            helperText={datesInvalid ? 'Ends before it starts' : 'Leave empty for no expiry'}
+            fullWidth
+          />
+        </Stack>
+        <Stack direction="row" spacing={1} alignItems="center" flexWrap="wrap">
+          <FormControlLabel
+            control={<Switch checked={complimentary} onChange={(e) => setComplimentary(e.target.checked)} />}
+            label="Complimentary"
+          />
+          {COMPLIMENTARY_MONTHS.map((months) => (
+            <Button key={months} size="small" variant="outlined" onClick={() => grantComplimentary(months)}>
+              Comp {months} mo
+            </Button>
+          ))}
+        </Stack>
+        <TextField
+          label="Reason"
+          placeholder="e.g. Refund for outage on 12 May, ticket #4821"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          multiline
+          minRows={2}
+          required
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={submit} disabled={saving || datesInvalid}>
+          {saving ? 'Saving…' : 'Save'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default SubscriptionDialog;
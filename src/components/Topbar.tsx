@@ -1,31 +1,27 @@
-import React, { useEffect, useState } from 'react';
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { AppBar, Box, Button, Chip, Toolbar, Tooltip, Typography } from '@mui/material';
-import api from '../api/client';
+import { getErrorMessage, integrationsApi, queryKeys } from '../api';
 import { useAuth } from '../state/AuthContext';
 
 type HealthStatus = 'loading' | 'ok' | 'error';
 
 const Topbar: React.FC = () => {
   const { user, logout } = useAuth();
-  const [health, setHealth] = useState<{ status: HealthStatus; message: string }>({ status: 'loading', message: 'Checking…' });
+  const statusQuery = useQuery({
+    queryKey: queryKeys.integrations.apiStatus,
+    queryFn: integrationsApi.apiStatus,
+    refetchInterval: 60000
+  });
 
-  const checkHealth = async () => {
-    try {
-      setHealth({ status: 'loading', message: 'Checking…' });
-      const res = await api.get('/health');
-      const ok = res.data?.status === 'ok';
-      setHealth({ status: ok ? 'ok' : 'error', message: ok ? 'API reachable' : 'API unreachable' });
-    } catch (err: any) {
-      const msg = err?.response?.data?.message || 'API unreachable';
-      setHealth({ status: 'error', message: msg });
-    }
-  };
+  const health: { status: HealthStatus; message: string } = statusQuery.isPending
+    ? { status: 'loading', message: 'Checking…' }
+    : statusQuery.error
+      ? { status: 'error', message: getErrorMessage(statusQuery.error, 'API unreachable') }
+      : statusQuery.data
+        ? { status: 'ok', message: 'API reachable' }
+        : { status: 'error', message: 'API unreachable' };
 
-  useEffect(() => {
-    checkHealth();
-    const id = setInterval(checkHealth, 60000);
-    return () => clearInterval(id);
-  }, []);
   return (
     <AppBar position="fixed" color="default" elevation={0} sx={{ borderBottom: '1px solid #e5e7eb' }}>
       <Toolbar sx={{ display: 'flex', justifyContent: 'space-between' }}>
@@ -37,7 +33,7 @@ const Topbar: React.FC = () => {
               label={health.status === 'loading' ? 'Checking' : health.status === 'ok' ? 'Online' : 'Offline'}
               color={health.status === 'ok' ? 'success' : health.status === 'loading' ? 'default' : 'error'}
               variant="outlined"
-              onClick={checkHealth}
+              onClick={() => statusQuery.refetch()}
               sx={{ cursor: 'pointer' }}
             />
           </Tooltip>
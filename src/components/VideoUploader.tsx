@@ -0,0 +1,189 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Alert, Box, Button, LinearProgress, Stack, Typography } from '@mui/material';
+import CloudUploadIcon from '@mui/icons-material/CloudUpload';
+import { Upload } from 'tus-js-client';
+import { getErrorMessage, integrationsApi } from '../api';
+
+// Cloudflare Stream needs tus chunks in multiples of 256 KiB; 50 MiB is their recommended size.
+const CHUNK_SIZE = 50 * 1024 * 1024;
+const POLL_INTERVAL_MS = 5000;
+
+type UploadPhase = 'idle' | 'uploading' | 'paused' | 'processing' | 'ready' | 'error';
+
+export interface UploadedVideo {
+  videoId: string;
+  // Minutes, rounded up, matching how the forms store duration.
+  duration: number;
+}
+
+interface VideoUploaderProps {
+  onUploaded: (video: UploadedVideo) => void;
+  disabled?: boolean;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+};
+
+const VideoUploader: React.FC<VideoUploaderProps> = ({ onUploaded, disabled }) => {
+  const [phase, setPhase] = useState<UploadPhase>('idle');
+  const [file, setFile] = useState<File | null>(null);
+  const [sent, setSent] = useState(0);
+  const [statusText, setStatusText] = useState('');
+  const [error, setError] = useState('');
+  const uploadRef = useRef<Upload | null>(null);
+  const videoIdRef = useRef<string | null>(null);
+  const pollRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const inputRef = useRef<HTMLInputElement | null>(null);
+
+  useEffect(() => () => {
+    uploadRef.current?.abort();
+    videoIdRef.current = null;
+    if (pollRef.current) clearTimeout(pollRef.current);
+  }, []);
+
+  const reset = () => {
+    uploadRef.current = null;
+    videoIdRef.current = null;
+    if (pollRef.current) clearTimeout(pollRef.current);
+    setFile(null);
+    setSent(0);
+    setStatusText('');
+    setError('');
+    setPhase('idle');
+  };
+
+  // Cloudflare transcodes after the upload finishes; wait until the video can stream before using its ID.
+  // After each await, stop if the uploader was reset or unmounted while the request was in flight.
+  const pollProcessing = async (videoId: string) => {
+    try {
+      const video = await integrationsApi.getStreamVideo(videoId);
+      if (videoIdRef.current !== videoId) return;
+      if (video?.status?.state === 'error') {
+        setError(video.status.errorReasonText || 'Cloudflare failed to process the video');
+        setPhase('error');
+        return;
+      }
+      if (!video?.readyToStream) {
+        const pct = video?.status?.pctComplete;
+        setStatusText(pct ? `Processing on Cloudflare… ${Math.round(Number(pct))}%` : 'Processing on Cloudflare…');
+        pollRef.current = setTimeout(() => pollProcessing(videoId), POLL_INTERVAL_MS);
+        return;
+      }
+      const seconds = (await integrationsApi.getVideoDuration(videoId)) || video.duration || 0;
+      if (videoIdRef.current !== videoId) return;
+      setPhase('ready');
+      setStatusText('Video ready');
+      onUploaded({ videoId, duration: Math.ceil(seconds / 60) });
+    } catch (err) {
+      if (videoIdRef.current !== videoId) return;
+      setError(getErrorMessage(err, 'Failed to check processing status'));
+      setPhase('error');
+    }
+  };
+
+  const startUpload = async (selected: File) => {
+    setError('');
+    setFile(selected);
+    setSent(0);
+    setPhase('uploading');
+    setStatusText('Requesting upload URL…');
+    try {
+      const { uploadURL, videoId } = await integrationsApi.createDirectUpload(selected.name, selected.size);
+      videoIdRef.current = videoId;
+
+      const upload = new Upload(selected, {
+        uploadUrl: uploadURL,
+        chunkSize: CHUNK_SIZE,
+        retryDelays: [0, 3000, 5000, 10000, 20000],
+        metadata: { name: selected.name, filetype: selected.type },
+        onProgress: (bytesSent) => {
+          setSent(bytesSent);
+          setStatusText('Uploading…');
+        },
+        onError: (err) => {
+          setError(err.message || 'Upload failed');
+          setPhase('error');
+        },
+        onSuccess: () => {
+          setPhase('processing');
+          setStatusText('Processing on Cloudflare…');
+          pollProcessing(videoId);
+        }
+      });
+      uploadRef.current = upload;
+      upload.start();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Could not start upload'));
+      setPhase('error');
+    }
+  };
+
+  const pause = async () => {
+    await uploadRef.current?.abort();
+    setPhase('paused');
+    setStatusText('Paused');
+  };
+
+  const resume = () => {
+    uploadRef.current?.start();
+    setPhase('uploading');
+  };
+
+  const cancel = async () => {
+    // Terminating tells Cloudflare to discard the partial upload.
+    await uploadRef.current?.abort(true).catch(() => undefined);
+    reset();
+  };
+
+  const percent = file?.size ? (sent / file.size) * 100 : 0;
+  const busy = phase === 'uploading' || phase === 'paused' || phase === 'processing';
+
+  return (
+    <Box sx={{ p: 2, border: '1px dashed #90caf9', borderRadius: 1, bgcolor: '#f8fbff' }}>
+      <input
+        ref={inputRef}
+        type="file"
+        accept="video/*"
+        hidden
+        onChange={(e) => {
+          const selected = e.target.files?.[0];
+          e.target.value = '';
+          if (selected) startUpload(selected);
+        }}
+      />
+      <Stack spacing={1}>
+        <Stack direction="row" spacing={1} alignItems="center">
+          <Button
+            size="small"
+            variant="outlined"
+            startIcon={<CloudUploadIcon />}
+            onClick={() => inputRef.current?.click()}
+            disabled={disabled || busy}
+          >
+            Upload video to Cloudflare
+          </Button>
+          {phase === 'uploading' && <Button size="small" onClick={pause}>Pause</Button>}
+          {phase === 'paused' && <Button size="small" onClick={resume}>Resume</Button>}
+          {(phase === 'uploading' || phase === 'paused') && <Button size="small" color="error" onClick={cancel}>Cancel</Button>}
+          {(phase === 'ready' || phase === 'error') && <Button size="small" onClick={reset}>Clear</Button>}
+        </Stack>
+        {file && (
+          <Typography variant="caption" color="text.secondary">
+            {file.name} · {formatBytes(sent)} / {formatBytes(file.size)} {statusText && `· ${statusText}`}
+          </Typography>
+        )}
+        {(phase === 'uploading' || phase === 'paused') && <LinearProgress variant="determinate" value={percent} />}
+        {phase === 'processing' && <LinearProgress />}
+        {phase === 'ready' && videoIdRef.current && (
+          <Alert severity="success">Uploaded — Video ID {videoIdRef.current} filled in.</Alert>
+        )}
+        {error && <Alert severity="error">{error}</Alert>}
+      </Stack>
+    </Box>
+  );
+};
+
+export default VideoUploader;
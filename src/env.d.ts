@@ -2,6 +2,7 @@
 
 interface ImportMetaEnv {
   readonly VITE_API_BASE?: string;
+  readonly VITE_IDLE_TIMEOUT_MINUTES?: string;
 }
 
 interface ImportMeta {
@@ -2,12 +2,14 @@ import React from 'react';
 import { Box, Toolbar } from '@mui/material';
 import Sidebar from '../components/Sidebar';
 import Topbar from '../components/Topbar';
+import IdleTimeoutDialog from '../components/IdleTimeoutDialog';
 
 const AppLayout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   return (
     <Box sx={{ display: 'flex', minHeight: '100vh', bgcolor: 'background.default' }}>
       <Topbar />
       <Sidebar />
+      <IdleTimeoutDialog />
       <Box component="main" sx={{ flex: 1, p: 3 }}>
         <Toolbar />
         {children}
@@ -0,0 +1,188 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import {
+  Alert,
+  Box,
+  Grid,
+  MenuItem,
+  Paper,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip as MuiTooltip,
+  Typography
+} from '@mui/material';
+import { Bar, CartesianGrid, ComposedChart, Legend, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { analyticsApi, getErrorMessage, queryKeys, type ChurnPoint, type Cohort, type CohortPeriod } from '../api';
+import type { ExportColumn } from '../components/ExportButton';
+import { ChartHeader, StatCard } from '../components/AnalyticsWidgets';
+import { parseIsoDate } from '../components/DateRangeControls';
+import { useQueryParams } from '../routes/useQueryParams';
+import { formatPercent } from '../utils/format';
+
+const COHORT_COUNTS = [6, 12, 24];
+const DEFAULT_COUNT = 12;
+
+const churnRate = (point: ChurnPoint) => (point.activeAtStart ? point.churned / point.activeAtStart : 0);
+const conversionRate = (cohort: Cohort) => (cohort.size ? cohort.premiumConversions / cohort.size : 0);
+
+// Share of all users across cohorts still active `period` periods after signup, counting only
+// cohorts old enough to have reached that period.
+const weightedRetention = (cohorts: Cohort[], period: number) => {
+  const eligible = cohorts.filter((c) => c.retention.length > period);
+  const users = eligible.reduce((sum, c) => sum + c.size, 0);
+  return users ? eligible.reduce((sum, c) => sum + c.retention[period] * c.size, 0) / users : undefined;
+};
+
+// Blue scale; the text flips to white once the cell is dark enough.
+const heatStyle = (rate: number) => ({
+  bgcolor: `rgba(15, 98, 254, ${Math.max(0.05, rate)})`,
+  color: rate > 0.5 ? '#fff' : 'text.primary'
+});
+
+const churnColumns: ExportColumn<ChurnPoint>[] = [
+  { header: 'Period', value: (row) => row._id },
+  { header: 'Premium at start', value: (row) => row.activeAtStart },
+  { header: 'Churned', value: (row) => row.churned },
+  { header: 'Churn rate', value: (row) => churnRate(row) }
+];
+
+const Cohorts: React.FC = () => {
+  const { searchParams, updateQuery } = useQueryParams();
+  const period: CohortPeriod = searchParams.get('period') === 'month' ? 'month' : 'week';
+  const count = COHORT_COUNTS.includes(Number(searchParams.get('count'))) ? Number(searchParams.get('count')) : DEFAULT_COUNT;
+  const params = { period, count };
+
+  const cohortsQuery = useQuery({ queryKey: queryKeys.analytics.cohorts(params), queryFn: () => analyticsApi.cohorts(params) });
+  const churnQuery = useQuery({ queryKey: queryKeys.analytics.premiumChurn(params), queryFn: () => analyticsApi.premiumChurn(params) });
+
+  const cohorts = [...(cohortsQuery.data?.cohorts ?? [])].sort((a, b) => a._id.localeCompare(b._id));
+  const churn = [...(churnQuery.data?.churn ?? [])].sort((a, b) => a._id.localeCompare(b._id));
+  const periods = Math.max(0, ...cohorts.map((c) => c.retention.length));
+  const unit = period === 'week' ? 'Week' : 'Month';
+
+  const totalUsers = cohorts.reduce((sum, c) => sum + c.size, 0);
+  const totalConversions = cohorts.reduce((sum, c) => sum + c.premiumConversions, 0);
+  const totalAtStart = churn.reduce((sum, p) => sum + p.activeAtStart, 0);
+  const totalChurned = churn.reduce((sum, p) => sum + p.churned, 0);
+  const failed = [cohortsQuery, churnQuery].find((q) => q.error);
+  const error = failed ? getErrorMessage(failed.error, 'Failed to load cohort analytics') : '';
+
+  const cohortColumns: ExportColumn<Cohort>[] = [
+    { header: 'Cohort', value: (row) => row._id },
+    { header: 'Users', value: (row) => row.size },
+    ...Array.from({ length: periods }, (_, i) => ({ header: `${unit} ${i}`, value: (row: Cohort) => row.retention[i] ?? '' })),
+    { header: 'Premium conversions', value: (row) => row.premiumConversions },
+    { header: 'Conversion rate', value: (row) => conversionRate(row) }
+  ];
+
+  return (
+    <Stack spacing={2}>
+      <Stack direction="row" justifyContent="space-between" alignItems="center">
+        <Typography variant="h6">Retention & Cohorts</Typography>
+        <Stack direction="row" spacing={2} alignItems="center">
+          <ToggleButtonGroup size="small" exclusive value={period} onChange={(_, value) => value && updateQuery({ period: value === 'week' ? null : value })}>
+            <ToggleButton value="week">Weekly</ToggleButton>
+            <ToggleButton value="month">Monthly</ToggleButton>
+          </ToggleButtonGroup>
+          <TextField
+            select
+            size="small"
+            label="Cohorts"
+            value={count}
+            onChange={(e) => updateQuery({ count: Number(e.target.value) === DEFAULT_COUNT ? null : e.target.value })}
+            sx={{ minWidth: 110 }}
+          >
+            {COHORT_COUNTS.map((n) => (
+              <MenuItem key={n} value={n}>Last {n}</MenuItem>
+            ))}
+          </TextField>
+        </Stack>
+      </Stack>
+      {error && <Alert severity="error">{error}</Alert>}
+
+      <Grid container spacing={2}>
+        <Grid item xs={12} sm={6} md={3}><StatCard title="Signups in cohorts" value={cohortsQuery.data ? totalUsers : undefined} /></Grid>
+        <Grid item xs={12} sm={6} md={3}>
+          <StatCard title={`${unit} 1 retention`} value={weightedRetention(cohorts, 1)} format={formatPercent} />
+        </Grid>
+        <Grid item xs={12} sm={6} md={3}>
+          <StatCard title="Free → premium" value={totalUsers ? totalConversions / totalUsers : undefined} format={formatPercent} />
+        </Grid>
+        <Grid item xs={12} sm={6} md={3}>
+          <StatCard title={`Premium churn / ${period}`} value={totalAtStart ? totalChurned / totalAtStart : undefined} format={formatPercent} />
+        </Grid>
+      </Grid>
+
+      <Paper sx={{ p: 2 }}>
+        <ChartHeader title="Retention by signup cohort" filename={`cohorts-${period}`} columns={cohortColumns} rows={cohorts} />
+        <Box sx={{ overflowX: 'auto', mt: 1 }}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Cohort</TableCell>
+                <TableCell align="right">Users</TableCell>
+                {Array.from({ length: periods }, (_, i) => (
+                  <TableCell key={i} align="center">{unit} {i}</TableCell>
+                ))}
+                <TableCell align="right">Converted</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {cohorts.map((cohort) => (
+                <TableRow key={cohort._id}>
+                  <TableCell sx={{ whiteSpace: 'nowrap' }}>{parseIsoDate(cohort._id.slice(0, 10)).toLocaleDateString()}</TableCell>
+                  <TableCell align="right">{cohort.size}</TableCell>
+                  {Array.from({ length: periods }, (_, i) => {
+                    const rate = cohort.retention[i];
+                    // Cohorts younger than this period have no value yet; leave the cell empty rather than showing 0%.
+                    if (rate === undefined) return <TableCell key={i} />;
+                    return (
+                      <MuiTooltip key={i} title={`${Math.round(rate * cohort.size)} of ${cohort.size} users`}>
+                        <TableCell align="center" sx={{ ...heatStyle(rate), border: '1px solid #fff' }}>{formatPercent(rate)}</TableCell>
+                      </MuiTooltip>
+                    );
+                  })}
+                  <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                    {cohort.premiumConversions} ({formatPercent(conversionRate(cohort))})
+                  </TableCell>
+                </TableRow>
+              ))}
+              {!cohortsQuery.isFetching && !cohorts.length && (
+                <TableRow>
+                  <TableCell colSpan={periods + 3} align="center">
+                    <Typography variant="body2" color="text.secondary">No signups in this window</Typography>
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </Box>
+      </Paper>
+
+      <Paper sx={{ p: 2, height: 340 }}>
+        <ChartHeader title="Premium churn" filename={`premium-churn-${period}`} columns={churnColumns} rows={churn} />
+        <ResponsiveContainer width="100%" height="88%">
+          <ComposedChart data={churn.map((p) => ({ ...p, rate: churnRate(p) }))}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="_id" tick={{ fontSize: 12 }} />
+            <YAxis yAxisId="count" allowDecimals={false} />
+            <YAxis yAxisId="rate" orientation="right" tickFormatter={(v: number) => `${Math.round(v * 100)}%`} />
+            <Tooltip formatter={(value, name) => (name === 'Churn rate' ? formatPercent(Number(value)) : value)} />
+            <Legend />
+            <Bar yAxisId="count" dataKey="churned" name="Churned" fill="#eb2f96" radius={[6, 6, 0, 0]} />
+            <Line yAxisId="rate" type="monotone" dataKey="rate" name="Churn rate" stroke="#722ed1" strokeWidth={2} dot={false} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </Paper>
+    </Stack>
+  );
+};
+
+export default Cohorts;
@@ -1,317 +1,267 @@
-import React, { useEffect, useMemo, useState } from 'react';
+import React, { useMemo, useState } from 'react';
+import { Link as RouterLink, useNavigate } from 'react-router-dom';
+import { keepPreviousData, useQuery, useQueryClient } from '@tanstack/react-query';
 import {
   Alert,
-  Autocomplete,
-  Box,
   Button,
   Dialog,
   DialogActions,
   DialogContent,
   DialogTitle,
-  FormControlLabel,
-  MenuItem,
+  Link,
   Paper,
   Stack,
-  Switch,
   Table,
   TableBody,
   TableCell,
   TableHead,
+  TablePagination,
   TableRow,
+  TableSortLabel,
   TextField,
   Typography
 } from '@mui/material';
-import api from '../api/client';
+import { moviesApi, queryKeys, toApiError, getErrorMessage, type Movie, type MoviePayload, type Taxonomy } from '../api';
+import { useAuth } from '../state/AuthContext';
+import BulkActionBar, { RowCheckbox, SelectAllCheckbox, useBulkActions } from '../components/BulkActionBar';
+import { MaturityRatingSelect, knownGenres, matchGenre, matchLanguage, useTaxonomy } from '../components/ContentMetadata';
+import MovieForm, { emptyMovie, movieChecklist, validateMovie } from '../components/MovieForm';
+import ExportButton, { fetchAllPages, type ExportColumn } from '../components/ExportButton';
+import ImportWizard, { splitList, toBoolean, toNumber, type ImportConfig } from '../components/ImportWizard';
+import PublishDialog, { PublishStatusChip, getPublishStatus, type ChecklistItem } from '../components/PublishDialog';
+import { formatSort, parseSort, useDebouncedInput, useQueryParams, type Sort, type SortOrder } from '../routes/useQueryParams';
 
-interface MovieRow {
-  _id: string;
-  title: string;
-  isPublished: boolean;
-  isPremium: boolean;
-  language?: string;
-  releaseYear?: number;
-  cloudflareVideoId?: string;
-}
+type MovieRow = Movie;
 
-type MoviePayload = {
-  title: string;
-  description: string;
-  genres: string[];
-  language: string;
-  releaseYear: number;
-  duration: number;
-  rating?: number;
-  poster: { vertical: string; horizontal: string };
-  trailerUrl?: string;
-  cloudflareVideoId: string;
-  maturityRating: 'U' | 'UA' | 'A';
-  isPremium: boolean;
-  // Optional IMDB enrichment fields
-  imdbId?: string;
-  imdbRating?: number;
-  imdbLink?: string;
-  rated?: string;
-  released?: string;
-  runtime?: string;
-  director?: string;
-  writer?: string;
-  actors?: string;
-  plot?: string;
-  languages?: string;
-  country?: string;
-  awards?: string;
-  omdbPoster?: string;
-  ratings?: Array<{ source: string; value: string }>;
-};
+type SortField = 'title' | 'releaseYear' | 'updatedAt';
 
-const GENRES = [
-  'Action',
-  'Comedy',
-  'Drama',
-  'Horror',
-  'Thriller',
-  'Romance',
-  'Sci-Fi',
-  'Fantasy',
-  'Documentary',
-  'Animation',
-  'Crime',
-  'Mystery',
-  'Adventure',
-  'Family',
-  'Musical',
-  'War',
-  'Western',
-  'Biography',
-  'Sports'
-];
+const SORT_FIELDS: SortField[] = ['title', 'releaseYear', 'updatedAt'];
+const PAGE_SIZES = [10, 25, 50, 100];
+const DEFAULT_LIMIT = 25;
 
-const LANGUAGES = [
-  'English',
-  'हिंदी',
-  'Tamil',
-  'Telugu',
-  'Kannada',
-  'Malayalam',
-  'Bengali',
-  'Marathi',
-  'Gujarati',
-  'Punjabi'
+const EXPORT_COLUMNS: ExportColumn<MovieRow>[] = [
+  { header: 'ID', value: (row) => row._id },
+  { header: 'Title', value: (row) => row.title },
+  { header: 'Release year', value: (row) => row.releaseYear },
+  { header: 'Language', value: (row) => row.language },
+  { header: 'Genres', value: (row) => (row.genres || []).join('; ') },
+  { header: 'Duration (min)', value: (row) => row.duration },
+  { header: 'Maturity', value: (row) => row.maturityRating },
+  { header: 'Premium', value: (row) => (row.isPremium ? 'yes' : 'no') },
+  { header: 'Status', value: (row) => getPublishStatus(row) },
+  { header: 'Publish at', value: (row) => row.publishAt },
+  { header: 'Cloudflare video ID', value: (row) => row.cloudflareVideoId },
+  { header: 'IMDB ID', value: (row) => row.imdbId },
+  { header: 'IMDB rating', value: (row) => row.imdbRating },
+  { header: 'Updated', value: (row) => row.updatedAt }
 ];
 
-const MATURITY_RATINGS: Array<'U' | 'UA' | 'A'> = ['U', 'UA', 'A'];
-
-const emptyMovie = (): MoviePayload => ({
-  title: '',
-  description: '',
-  genres: [],
-  language: '',
-  releaseYear: new Date().getFullYear(),
-  duration: 0,
-  rating: 0,
-  poster: { vertical: '', horizontal: '' },
-  trailerUrl: '',
-  cloudflareVideoId: '',
-  maturityRating: 'U',
-  isPremium: false,
-  imdbId: '',
-  director: '',
-  writer: '',
-  imdbRating: 0,
-  imdbLink: ''
+// Built per taxonomy, since values in the file are resolved against it.
+const movieImport = (taxonomy: Taxonomy): ImportConfig<MoviePayload> => ({
+  noun: 'movies',
+  fields: [
+    { key: 'title', label: 'Title', required: true, aliases: ['name'] },
+    { key: 'description', label: 'Description', aliases: ['plot', 'synopsis'] },
+    { key: 'genres', label: 'Genres', aliases: ['genre'] },
+    { key: 'language', label: 'Language' },
+    { key: 'releaseYear', label: 'Release year', aliases: ['year'] },
+    { key: 'duration', label: 'Duration (min)', aliases: ['duration', 'runtime minutes'] },
+    { key: 'rating', label: 'Rating' },
+    { key: 'posterVertical', label: 'Poster vertical URL', aliases: ['poster', 'poster vertical'] },
+    { key: 'posterHorizontal', label: 'Poster horizontal URL', aliases: ['poster horizontal', 'backdrop'] },
+    { key: 'trailerUrl', label: 'Trailer URL', aliases: ['trailer'] },
+    { key: 'cloudflareVideoId', label: 'Cloudflare video ID', aliases: ['video id', 'videoId'] },
+    { key: 'maturityRating', label: 'Maturity rating', aliases: ['maturity', 'certificate'] },
+    { key: 'isPremium', label: 'Premium', aliases: ['premium'] },
+    { key: 'imdbId', label: 'IMDB ID' },
+    { key: 'director', label: 'Director' },
+    { key: 'writer', label: 'Writer' },
+    { key: 'actors', label: 'Actors', aliases: ['cast'] }
+  ],
+  toPayload: (record) => ({
+    ...emptyMovie(),
+    title: String(record.title ?? '').trim(),
+    description: String(record.description ?? '').trim(),
+    genres: splitList(record.genres).map((genre) => matchGenre(genre, taxonomy)),
+    language: matchLanguage(String(record.language ?? ''), taxonomy),
+    // Left at 0 when blank so validation flags it rather than guessing the current year.
+    releaseYear: toNumber(record.releaseYear),
+    duration: toNumber(record.duration),
+    rating: toNumber(record.rating),
+    poster: { vertical: String(record.posterVertical ?? '').trim(), horizontal: String(record.posterHorizontal ?? '').trim() },
+    trailerUrl: String(record.trailerUrl ?? '').trim(),
+    cloudflareVideoId: String(record.cloudflareVideoId ?? '').trim(),
+    maturityRating: String(record.maturityRating || 'U').trim().toUpperCase() as MoviePayload['maturityRating'],
+    isPremium: toBoolean(record.isPremium),
+    imdbId: String(record.imdbId ?? '').trim(),
+    director: String(record.director ?? '').trim(),
+    writer: String(record.writer ?? '').trim(),
+    actors: String(record.actors ?? '').trim()
+  }),
+  validate: (movie) => validateMovie(movie, taxonomy),
+  // Prefers the IMDB match from the same year and only fills fields the file left empty.
+  enrich: async (movie) => {
+    const results = await moviesApi.searchImdb(movie.title);
+    const match = results.find((r) => Number(r.year || r.releaseYear) === movie.releaseYear) || results[0];
+    if (!match) return movie;
+    return {
+      ...movie,
+      description: movie.description || match.plot || match.description || '',
+      duration: movie.duration || match.duration || 0,
+      genres: movie.genres.length ? movie.genres : knownGenres(match.genres || [], taxonomy),
+      poster: { vertical: movie.poster.vertical || match.posterUrl || '', horizontal: movie.poster.horizontal },
+      imdbId: movie.imdbId || match.imdbId,
+      imdbRating: movie.imdbRating || match.imdbRating,
+      imdbLink: movie.imdbLink || match.imdbLink,
+      rated: movie.rated || match.rated,
+      released: movie.released || match.released,
+      runtime: movie.runtime || match.runtime,
+      director: movie.director || match.director,
+      writer: movie.writer || match.writer,
+      actors: movie.actors || match.actors,
+      plot: movie.plot || match.plot,
+      languages: movie.languages || match.languages,
+      country: movie.country || match.country,
+      awards: movie.awards || match.awards,
+      omdbPoster: movie.omdbPoster || match.posterUrl || match.poster,
+      ratings: movie.ratings?.length ? movie.ratings : match.ratings
+    };
+  },
+  create: moviesApi.create,
+  getTitle: (movie) => movie.title
 });
 
+const DEFAULT_SORT: Sort<SortField> = { field: 'updatedAt', order: 'desc' };
+
 const Content: React.FC = () => {
-  const [rows, setRows] = useState<MovieRow[]>([]);
+  const { can } = useAuth();
+  const navigate = useNavigate();
+  const { searchParams, updateQuery } = useQueryParams();
+  const page = Math.max(1, Number(searchParams.get('page')) || 1);
+  const limit = PAGE_SIZES.includes(Number(searchParams.get('limit'))) ? Number(searchParams.get('limit')) : DEFAULT_LIMIT;
+  const q = searchParams.get('q') || '';
+  const sort = parseSort(searchParams.get('sort'), SORT_FIELDS, DEFAULT_SORT);
+  const [searchInput, setSearchInput] = useDebouncedInput(q, (value) => updateQuery({ q: value || null, page: null }));
+  const queryClient = useQueryClient();
+  const { taxonomy, ready: taxonomyReady } = useTaxonomy();
+  const importConfig = useMemo(() => movieImport(taxonomy), [taxonomy]);
   const [error, setError] = useState('');
-  const [loading, setLoading] = useState(false);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
   const [form, setForm] = useState<MoviePayload>(emptyMovie());
-  const [editingId, setEditingId] = useState<string | null>(null);
-  const [imdbSearching, setImdbSearching] = useState(false);
-  const [imdbResults, setImdbResults] = useState<any[]>([]);
-  const dialogTitle = useMemo(() => (editingId ? 'Edit Movie' : 'Create Movie'), [editingId]);
-
-  const load = async () => {
-    setLoading(true);
-    setError('');
-    try {
-      const res = await api.get('/admin/movies?limit=50', { headers: { 'Cache-Control': 'no-cache' } });
-      setRows(res.data.data.movies || []);
-    } catch (err: any) {
-      setError(err?.response?.data?.message || 'Failed to load content');
-    } finally {
-      setLoading(false);
-    }
+  const [saving, setSaving] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [publishTarget, setPublishTarget] = useState<MovieRow | null>(null);
+  const listParams = {
+    page,
+    limit,
+    sort: formatSort(sort),
+    q: q || undefined
   };
+  const moviesQuery = useQuery({
+    queryKey: queryKeys.movies.list(listParams),
+    queryFn: () => moviesApi.list(listParams),
+    // Keep the current page on screen while the next one loads.
+    placeholderData: keepPreviousData
+  });
+  const rows = useMemo(() => moviesQuery.data?.movies ?? [], [moviesQuery.data]);
+  const total = moviesQuery.data?.pagination?.total ?? moviesQuery.data?.total ?? rows.length;
+  const loading = moviesQuery.isFetching;
+  const loadError = moviesQuery.error ? getErrorMessage(moviesQuery.error, 'Failed to load content') : '';
 
-  useEffect(() => { load(); }, []);
+  const refreshMovies = () => queryClient.invalidateQueries({ queryKey: queryKeys.movies.all });
+  const bulk = useBulkActions(rows, { getLabel: (row) => row.title, onComplete: refreshMovies });
 
-  const openCreate = () => {
-    setEditingId(null);
-    setForm(emptyMovie());
-    setFieldErrors({});
-    setDialogOpen(true);
+  const exportMovies = (onProgress: (loaded: number, total?: number) => void) =>
+    fetchAllPages(async (pageNumber, pageSize) => {
+      const data = await moviesApi.list({ ...listParams, page: pageNumber, limit: pageSize });
+      return { rows: data.movies, total: data.pagination?.total ?? data.total };
+    }, onProgress);
+
+  const handleSort = (field: SortField) => {
+    const order: SortOrder = sort.field === field && sort.order === 'asc' ? 'desc' : 'asc';
+    updateQuery({ sort: formatSort({ field, order }), page: null });
   };
 
-  const openEdit = (movie: any) => {
-    setEditingId(movie._id);
-    setForm({
-      title: movie.title || '',
-      description: movie.description || '',
-      genres: movie.genres || [],
-      language: movie.language || '',
-      releaseYear: movie.releaseYear || new Date().getFullYear(),
-      duration: movie.duration || 0,
-      rating: movie.rating || 0,
-      poster: movie.poster || { vertical: '', horizontal: '' },
-      trailerUrl: movie.trailerUrl || '',
-      cloudflareVideoId: movie.cloudflareVideoId || '',
-      maturityRating: movie.maturityRating || 'U',
-      isPremium: movie.isPremium || false
-    });
+  const openCreate = () => {
+    setForm(emptyMovie());
     setFieldErrors({});
     setDialogOpen(true);
   };
 
+  // Editing happens on the movie's own page; this dialog only creates new titles.
   const handleSave = async () => {
     setError('');
     setFieldErrors({});
+    const invalid = validateMovie(form, taxonomy);
+    if (invalid) {
+      setFieldErrors(invalid.fieldErrors);
+      setError(invalid.message);
+      return;
+    }
+    setSaving(true);
     try {
-      const missing: string[] = [];
-      const nextFieldErrors: Record<string, string> = {};
-      if (!form.title) missing.push('title');
-      if (!form.description) missing.push('description');
-      if (!form.genres.length) missing.push('genres');
-      if (!form.language) missing.push('language');
-      if (!form.releaseYear) missing.push('releaseYear');
-      if (!form.duration) missing.push('duration');
-      if (!form.poster.vertical || !form.poster.horizontal) missing.push('poster URLs');
-      if (!form.cloudflareVideoId) missing.push('Cloudflare Video ID');
-      if (!['U', 'UA', 'A'].includes(form.maturityRating)) missing.push('maturity rating');
-
-      if (!form.title) nextFieldErrors.title = 'Title is required';
-      if (!form.description) nextFieldErrors.description = 'Description is required';
-      if (!form.genres.length) nextFieldErrors.genres = 'Select at least one genre';
-      if (!form.language) nextFieldErrors.language = 'Language is required';
-      if (!form.releaseYear) nextFieldErrors.releaseYear = 'Release year is required';
-      if (!form.duration) nextFieldErrors.duration = 'Duration is required';
-      if (!form.poster.vertical) nextFieldErrors.posterVertical = 'Vertical poster URL required';
-      if (!form.poster.horizontal) nextFieldErrors.posterHorizontal = 'Horizontal poster URL required';
-      if (!form.cloudflareVideoId) nextFieldErrors.cloudflareVideoId = 'Cloudflare Video ID required';
-      if (!['U', 'UA', 'A'].includes(form.maturityRating)) nextFieldErrors.maturityRating = 'Select U, UA, or A';
-
-      if (missing.length) {
-        setFieldErrors(nextFieldErrors);
-        setError(`Missing required: ${missing.join(', ')}`);
-        return;
-      }
-
-      const sanitizedGenres = form.genres.filter((g) => GENRES.includes(g)).slice(0, 5);
-      if (sanitizedGenres.length !== form.genres.length) {
-        setFieldErrors({ ...nextFieldErrors, genres: 'Pick from the list (max 5).' });
-        setError('Please select valid genres from the list (max 5).');
-        return;
-      }
-
-      if (!LANGUAGES.includes(form.language)) {
-        setFieldErrors({ ...nextFieldErrors, language: 'Pick a valid language.' });
-        setError('Please select a valid language.');
-        return;
-      }
-
-      const payload = {
-        ...form,
-        genres: sanitizedGenres,
-        language: form.language
-      };
-      
-      // Debug: log Video ID being sent
-      console.log('[Content] Movie payload:', {
-        title: payload.title,
-        cloudflareVideoId: payload.cloudflareVideoId,
-        fullPayload: payload
-      });
-      
-      if (editingId) {
-        await api.put(`/admin/movies/${editingId}`, payload);
-      } else {
-        await api.post('/admin/movies', payload);
-      }
+      await moviesApi.create(form);
       setDialogOpen(false);
-      await load();
-    } catch (err: any) {
-      setError(err?.response?.data?.message || 'Save failed');
+      await refreshMovies();
+    } catch (err) {
+      const apiError = toApiError(err, 'Save failed');
+      setFieldErrors(apiError.fieldErrors);
+      setError(apiError.message);
+    } finally {
+      setSaving(false);
     }
   };
 
   const handleDelete = async (id: string) => {
     if (!confirm('Delete this movie?')) return;
     try {
-      await api.delete(`/admin/movies/${id}`);
-      await load();
-    } catch (err: any) {
-      setError(err?.response?.data?.message || 'Delete failed');
+      await moviesApi.remove(id);
+      await refreshMovies();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Delete failed'));
     }
   };
 
-  const handleImdbSearch = async (query: string) => {
-    if (!query || query.length < 2) {
-      setImdbResults([]);
-      return;
-    }
+  const handlePublish = async (publishAt: string | null) => {
+    if (!publishTarget) return;
+    await moviesApi.publish(publishTarget._id, publishAt);
+    await refreshMovies();
+  };
 
-    console.log('[IMDB Search] Starting search for:', query);
-    setImdbSearching(true);
+  const handleUnpublish = async (id: string) => {
+    if (!confirm('Unpublish this movie? It will be hidden from viewers.')) return;
     try {
-      console.log('[IMDB Search] Making API call to /admin/search-imdb');
-      const res = await api.get('/admin/search-imdb', { params: { query } });
-      console.log('[IMDB Search] Response received:', res.data);
-      setImdbResults(res.data.data || []);
-      console.log('[IMDB Search] Results set:', res.data.data?.length || 0, 'movies');
-    } catch (err: any) {
-      console.error('[IMDB Search] Error:', err);
-      console.error('[IMDB Search] Error response:', err?.response?.data);
-      setImdbResults([]);
-    } finally {
-      setImdbSearching(false);
+      await moviesApi.unpublish(id);
+      await refreshMovies();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Unpublish failed'));
     }
   };
 
-  const fillMovieFromImdb = (imdbMovie: any) => {
-    // Auto-fill form with IMDB data
-    setForm((prev) => ({
-      ...prev,
-      title: imdbMovie.title || prev.title,
-      description: imdbMovie.plot || imdbMovie.description || prev.description,
-      releaseYear: imdbMovie.releaseYear || prev.releaseYear,
-      duration: imdbMovie.duration || prev.duration,
-      imdbRating: imdbMovie.imdbRating || prev.imdbRating,
-      imdbId: imdbMovie.imdbId || prev.imdbId,
-      imdbLink: imdbMovie.imdbLink || prev.imdbLink,
-      rated: imdbMovie.rated || prev.rated,
-      released: imdbMovie.released || prev.released,
-      runtime: imdbMovie.runtime || prev.runtime,
-      director: imdbMovie.director || prev.director,
-      writer: imdbMovie.writer || prev.writer,
-      actors: imdbMovie.actors || prev.actors,
-      plot: imdbMovie.plot || prev.plot,
-      languages: imdbMovie.languages || prev.languages,
-      country: imdbMovie.country || prev.country,
-      awards: imdbMovie.awards || prev.awards,
-      omdbPoster: imdbMovie.posterUrl || imdbMovie.poster || prev.omdbPoster,
-      ratings: imdbMovie.ratings || prev.ratings,
-      // Try to map IMDB genres to available genres
-      genres: (imdbMovie.genres || [])
-        .filter((g: string) => GENRES.includes(g))
-        .slice(0, 5)
-    }));
-    setImdbResults([]);
-  };
+  const bulkPublish = () => bulk.run(async (row) => {
+    const failing = movieChecklist(row).filter((item) => !item.ok);
+    if (failing.length) throw new Error(`Checklist incomplete: ${failing.map((item) => item.label).join(', ')}`);
+    await moviesApi.publish(row._id, null);
+  });
+
+  const bulkUnpublish = () => bulk.run(async (row) => {
+    await moviesApi.unpublish(row._id);
+  });
+
+  const bulkSetPremium = (isPremium: boolean) => bulk.run(async (row) => {
+    await moviesApi.update(row._id, { isPremium });
+  });
+
+  const bulkSetMaturity = (maturityRating: MoviePayload['maturityRating']) => bulk.run(async (row) => {
+    await moviesApi.update(row._id, { maturityRating });
+  });
 
-  const updateField = (key: keyof MoviePayload, value: any) => {
-    setForm((prev) => ({ ...prev, [key]: value }));
+  const bulkDelete = () => {
+    if (!confirm(`Delete ${bulk.selected.size} movie(s)? This cannot be undone.`)) return;
+    bulk.run(async (row) => {
+      await moviesApi.remove(row._id);
+    });
   };
 
   return (
@@ -319,182 +269,127 @@ const Content: React.FC = () => {
       <Stack direction="row" justifyContent="space-between" alignItems="center">
         <Typography variant="h6">Movies</Typography>
         <Stack direction="row" spacing={1}>
-          <Button variant="outlined" onClick={load} disabled={loading}>{loading ? 'Loading…' : 'Refresh'}</Button>
-          <Button variant="contained" onClick={openCreate}>Add Movie</Button>
+          <ExportButton filename="movies" columns={EXPORT_COLUMNS} loadRows={exportMovies} onError={setError} />
+          <Button variant="outlined" onClick={() => moviesQuery.refetch()} disabled={loading}>{loading ? 'Loading…' : 'Refresh'}</Button>
+          <Button variant="outlined" onClick={() => setImportOpen(true)} disabled={!can('content:edit') || !taxonomyReady}>Import</Button>
+          <Button variant="contained" onClick={openCreate} disabled={!can('content:edit')}>Add Movie</Button>
         </Stack>
       </Stack>
-      {error && <Alert severity="error">{error}</Alert>}
+      {(error || loadError) && <Alert severity="error">{error || loadError}</Alert>}
+      <TextField
+        label="Search movies"
+        placeholder="Search by title"
+        value={searchInput}
+        onChange={(e) => setSearchInput(e.target.value)}
+        size="small"
+        sx={{ maxWidth: 360 }}
+      />
+      <BulkActionBar bulk={bulk}>
+        <Button size="small" onClick={bulkPublish} disabled={bulk.running || !can('content:publish')}>Publish</Button>
+        <Button size="small" onClick={bulkUnpublish} disabled={bulk.running || !can('content:publish')}>Unpublish</Button>
+        <Button size="small" onClick={() => bulkSetPremium(true)} disabled={bulk.running || !can('content:edit')}>Set Premium</Button>
+        <Button size="small" onClick={() => bulkSetPremium(false)} disabled={bulk.running || !can('content:edit')}>Remove Premium</Button>
+        <MaturityRatingSelect
+          taxonomy={taxonomy}
+          size="small"
+          label="Maturity"
+          value=""
+          onChange={bulkSetMaturity}
+          disabled={bulk.running || !can('content:edit')}
+          sx={{ minWidth: 120 }}
+        />
+        <Button size="small" color="error" onClick={bulkDelete} disabled={bulk.running || !can('content:delete')}>Delete</Button>
+      </BulkActionBar>
       <Paper>
         <Table size="small">
           <TableHead>
             <TableRow>
-              <TableCell>Title</TableCell>
-              <TableCell>Year</TableCell>
+              <TableCell padding="checkbox"><SelectAllCheckbox bulk={bulk} /></TableCell>
+              <TableCell sortDirection={sort.field === 'title' ? sort.order : false}>
+                <TableSortLabel active={sort.field === 'title'} direction={sort.field === 'title' ? sort.order : 'asc'} onClick={() => handleSort('title')}>
+                  Title
+                </TableSortLabel>
+              </TableCell>
+              <TableCell sortDirection={sort.field === 'releaseYear' ? sort.order : false}>
+                <TableSortLabel active={sort.field === 'releaseYear'} direction={sort.field === 'releaseYear' ? sort.order : 'asc'} onClick={() => handleSort('releaseYear')}>
+                  Year
+                </TableSortLabel>
+              </TableCell>
+              <TableCell sortDirection={sort.field === 'updatedAt' ? sort.order : false}>
+                <TableSortLabel active={sort.field === 'updatedAt'} direction={sort.field === 'updatedAt' ? sort.order : 'asc'} onClick={() => handleSort('updatedAt')}>
+                  Updated
+                </TableSortLabel>
+              </TableCell>
               <TableCell>Premium</TableCell>
               <TableCell>Status</TableCell>
-              <TableCell width={180}>Actions</TableCell>
+              <TableCell width={340}>Actions</TableCell>
             </TableRow>
           </TableHead>
           <TableBody>
             {rows.map((row) => (
-              <TableRow key={row._id} hover>
-                <TableCell>{row.title}</TableCell>
+              <TableRow key={row._id} hover selected={bulk.selected.has(row._id)}>
+                <TableCell padding="checkbox"><RowCheckbox bulk={bulk} id={row._id} /></TableCell>
+                <TableCell>
+                  <Link component={RouterLink} to={`/content/${row._id}`} underline="hover">{row.title}</Link>
+                </TableCell>
                 <TableCell>{row.releaseYear || '-'}</TableCell>
+                <TableCell>{row.updatedAt ? new Date(row.updatedAt).toLocaleDateString() : '-'}</TableCell>
                 <TableCell>{row.isPremium ? 'Yes' : 'No'}</TableCell>
-                <TableCell>{row.isPublished ? 'Published' : 'Draft'}</TableCell>
+                <TableCell><PublishStatusChip item={row} /></TableCell>
                 <TableCell>
                   <Stack direction="row" spacing={1}>
-                    <Button size="small" onClick={() => openEdit(row)}>Edit</Button>
-                    <Button size="small" color="error" onClick={() => handleDelete(row._id)}>Delete</Button>
+                    <Button size="small" onClick={() => navigate(`/content/${row._id}`)} disabled={!can('content:edit')}>Edit</Button>
+                    <Button size="small" onClick={() => navigate(`/content/${row._id}/analytics`)} disabled={!can('analytics:view')}>Analytics</Button>
+                    {['LIVE', 'SCHEDULED'].includes(getPublishStatus(row)) ? (
+                      <Button size="small" onClick={() => handleUnpublish(row._id)} disabled={!can('content:publish')}>Unpublish</Button>
+                    ) : (
+                      <Button size="small" onClick={() => setPublishTarget(row)} disabled={!can('content:publish')}>Publish</Button>
+                    )}
+                    <Button size="small" color="error" onClick={() => handleDelete(row._id)} disabled={!can('content:delete')}>Delete</Button>
                   </Stack>
                 </TableCell>
               </TableRow>
             ))}
+            {!loading && rows.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={7} align="center">
+                  <Typography variant="body2" color="text.secondary">{q ? `No movies match "${q}"` : 'No movies yet'}</Typography>
+                </TableCell>
+              </TableRow>
+            )}
           </TableBody>
         </Table>
+        <TablePagination
+          component="div"
+          count={total}
+          page={page - 1}
+          rowsPerPage={limit}
+          rowsPerPageOptions={PAGE_SIZES}
+          onPageChange={(_, next) => updateQuery({ page: next > 0 ? next + 1 : null })}
+          onRowsPerPageChange={(e) => updateQuery({ limit: Number(e.target.value), page: null })}
+        />
       </Paper>
 
-      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="md" fullWidth>
-        <DialogTitle>{dialogTitle}</DialogTitle>
-        <DialogContent sx={{ display: 'grid', gap: 2, pt: 2 }}>
-          {/* IMDB Search Section */}
-          <Box sx={{ p: 2, bgcolor: '#f5f5f5', borderRadius: 1, border: '1px solid #ddd' }}>
-            <Typography variant="subtitle2" sx={{ mb: 1, fontWeight: 600 }}>🎬 Search IMDB (Optional)</Typography>
-            <TextField
-              label="Search movie by title"
-              placeholder="e.g., Inception, The Matrix..."
-              onChange={(e) => handleImdbSearch(e.target.value)}
-              disabled={imdbSearching}
-              fullWidth
-              size="small"
-            />
-            {imdbSearching && <Typography variant="caption" sx={{ mt: 1, display: 'block' }}>Searching...</Typography>}
-            {imdbResults.length > 0 && (
-              <Stack spacing={1} sx={{ mt: 2 }}>
-                {imdbResults.map((movie, idx) => (
-                  <Box
-                    key={idx}
-                    sx={{
-                      p: 1.5,
-                      border: '1px solid #ddd',
-                      borderRadius: 1,
-                      bgcolor: 'white',
-                      cursor: 'pointer',
-                      '&:hover': { bgcolor: '#f9f9f9' }
-                    }}
-                    onClick={() => fillMovieFromImdb(movie)}
-                  >
-                    <Stack direction="row" spacing={2}>
-                      {movie.posterUrl && (
-                        <Box
-                          component="img"
-                          src={movie.posterUrl}
-                          sx={{ width: 50, height: 75, objectFit: 'cover', borderRadius: 0.5 }}
-                        />
-                      )}
-                      <Stack spacing={0.5} flex={1}>
-                        <Typography variant="body2" sx={{ fontWeight: 600 }}>{movie.title}</Typography>
-                        <Typography variant="caption">⭐ {movie.imdbRating}/10 • {movie.year || movie.releaseYear}</Typography>
-                        {movie.rated && <Typography variant="caption" sx={{ color: '#666' }}>Rated: {movie.rated}</Typography>}
-                        <Typography variant="caption" sx={{ color: '#666' }}>Dir: {movie.director}</Typography>
-                        <Typography variant="caption" sx={{ color: '#666' }}>Cast: {movie.actors}</Typography>
-                      </Stack>
-                    </Stack>
-                  </Box>
-                ))}
-              </Stack>
-            )}
-          </Box>
+      <PublishDialog
+        open={!!publishTarget}
+        title={publishTarget?.title || ''}
+        checklist={publishTarget ? movieChecklist(publishTarget) : []}
+        initialPublishAt={publishTarget?.publishAt}
+        onClose={() => setPublishTarget(null)}
+        onPublish={handlePublish}
+      />
 
-          {/* Basic Movie Info */}
-          <TextField label="Title" value={form.title} onChange={(e) => updateField('title', e.target.value)} required fullWidth error={!!fieldErrors.title} helperText={fieldErrors.title} />
-          <TextField label="Description" value={form.description} onChange={(e) => updateField('description', e.target.value)} multiline minRows={2} fullWidth error={!!fieldErrors.description} helperText={fieldErrors.description} />
-          <Autocomplete
-            multiple
-            options={GENRES}
-            value={form.genres}
-            onChange={(_, value) => updateField('genres', value.slice(0, 5))}
-            renderInput={(params) => (
-              <TextField
-                {...params}
-                label="Genres"
-                placeholder="Select up to 5"
-                error={!!fieldErrors.genres}
-                helperText={fieldErrors.genres}
-              />
-            )}
-          />
-          <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit,minmax(180px,1fr))', gap: 2 }}>
-            <TextField select label="Language" value={form.language} onChange={(e) => updateField('language', e.target.value)} error={!!fieldErrors.language} helperText={fieldErrors.language}>
-              {LANGUAGES.map((lang) => (
-                <MenuItem key={lang} value={lang}>{lang}</MenuItem>
-              ))}
-            </TextField>
-            <TextField label="Release Year" type="number" value={form.releaseYear} onChange={(e) => updateField('releaseYear', Number(e.target.value))} error={!!fieldErrors.releaseYear} helperText={fieldErrors.releaseYear} />
-            <TextField label="Duration (min)" type="number" value={form.duration} onChange={(e) => updateField('duration', Number(e.target.value))} error={!!fieldErrors.duration} helperText={fieldErrors.duration} />
-            <TextField label="Rating" type="number" value={form.rating ?? 0} onChange={(e) => updateField('rating', Number(e.target.value))} />
-          </Box>
+      <ImportWizard open={importOpen} config={importConfig} onClose={() => setImportOpen(false)} onImported={refreshMovies} />
 
-          {/* IMDB Enrichment Fields */}
-          {(form.imdbId || form.director || form.imdbRating || form.omdbPoster) && (
-            <Box sx={{ p: 2, bgcolor: '#e3f2fd', borderRadius: 1, border: '1px solid #90caf9' }}>
-              <Typography variant="subtitle2" sx={{ mb: 1, fontWeight: 600 }}>📋 IMDB Enrichment Data</Typography>
-              <Stack spacing={1}>
-                {form.imdbId && <Typography variant="caption">🆔 IMDB ID: {form.imdbId}</Typography>}
-                {form.imdbRating && <Typography variant="caption">⭐ IMDB Rating: {form.imdbRating}/10</Typography>}
-                {form.rated && <Typography variant="caption">🔞 Rated: {form.rated}</Typography>}
-                {form.released && <Typography variant="caption">📅 Released: {form.released}</Typography>}
-                {form.runtime && <Typography variant="caption">⏱️ Runtime: {form.runtime}</Typography>}
-                {form.director && <Typography variant="caption">🎬 Director: {form.director}</Typography>}
-                {form.writer && <Typography variant="caption">✍️ Writer: {form.writer}</Typography>}
-                {form.actors && <Typography variant="caption">👥 Actors: {form.actors}</Typography>}
-                {form.languages && <Typography variant="caption">🌐 Languages: {form.languages}</Typography>}
-                {form.country && <Typography variant="caption">🌍 Country: {form.country}</Typography>}
-                {form.awards && <Typography variant="caption">🏆 Awards: {form.awards}</Typography>}
-                {form.omdbPoster && (
-                  <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
-                    <Typography variant="caption">🎨 OMDB Poster:</Typography>
-                    <Box component="img" src={form.omdbPoster} sx={{ height: 60, borderRadius: 0.5 }} />
-                  </Box>
-                )}
-                {form.ratings && form.ratings.length > 0 && (
-                  <Box>
-                    <Typography variant="caption" sx={{ fontWeight: 600 }}>📊 Ratings:</Typography>
-                    {form.ratings.map((r, i) => (
-                      <Typography key={i} variant="caption" sx={{ display: 'block', ml: 2 }}>
-                        • {r.source}: {r.value}
-                      </Typography>
-                    ))}
-                  </Box>
-                )}
-              </Stack>
-            </Box>
-          )}
-
-          <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit,minmax(220px,1fr))', gap: 2 }}>
-            <TextField label="Poster Vertical URL" value={form.poster.vertical} onChange={(e) => updateField('poster', { ...form.poster, vertical: e.target.value })} error={!!fieldErrors.posterVertical} helperText={fieldErrors.posterVertical} />
-            <TextField label="Poster Horizontal URL" value={form.poster.horizontal} onChange={(e) => updateField('poster', { ...form.poster, horizontal: e.target.value })} error={!!fieldErrors.posterHorizontal} helperText={fieldErrors.posterHorizontal} />
-          </Box>
-          <TextField label="Trailer URL" value={form.trailerUrl} onChange={(e) => updateField('trailerUrl', e.target.value)} fullWidth />
-          <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit,minmax(220px,1fr))', gap: 2 }}>
-            <TextField 
-              label="Cloudflare Video ID" 
-              value={form.cloudflareVideoId} 
-              onChange={(e) => updateField('cloudflareVideoId', e.target.value)} 
-              error={!!fieldErrors.cloudflareVideoId} 
-              helperText={fieldErrors.cloudflareVideoId || "Get this from Cloudflare Stream upload"} 
-            />
-            <TextField select label="Maturity Rating" value={form.maturityRating} onChange={(e) => updateField('maturityRating', e.target.value as any)} error={!!fieldErrors.maturityRating} helperText={fieldErrors.maturityRating}>
-              {MATURITY_RATINGS.map((rate) => (
-                <MenuItem key={rate} value={rate}>{rate}</MenuItem>
-              ))}
-            </TextField>
-          </Box>
-          <FormControlLabel control={<Switch checked={form.isPremium} onChange={(e) => updateField('isPremium', e.target.checked)} />} label="Premium" />
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="md" fullWidth>
+        <DialogTitle>Create Movie</DialogTitle>
+        <DialogContent sx={{ pt: 2 }}>
+          {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+          <MovieForm form={form} setForm={setForm} fieldErrors={fieldErrors} disabled={saving} />
         </DialogContent>
         <DialogActions>
           <Button onClick={() => setDialogOpen(false)}>Cancel</Button>
-          <Button variant="contained" onClick={handleSave}>{editingId ? 'Update' : 'Create'}</Button>
+          <Button variant="contained" onClick={handleSave} disabled={saving || !taxonomyReady}>{saving ? 'Saving…' : 'Create'}</Button>
         </DialogActions>
       </Dialog>
     </Stack>
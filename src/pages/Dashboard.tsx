@@ -1,203 +1,236 @@
-import React, { useEffect, useState } from 'react';
-import { Alert, Box, Chip, Grid, Paper, Stack, Typography } from '@mui/material';
-import {
-  LineChart,
-  Line,
-  CartesianGrid,
-  XAxis,
-  YAxis,
-  Tooltip,
-  ResponsiveContainer,
-  PieChart,
-  Pie,
-  Cell,
-  BarChart,
-  Bar
-} from 'recharts';
-import api from '../api/client';
-
-const COLORS = ['#0f62fe', '#36cfc9', '#ffa940', '#722ed1', '#eb2f96', '#52c41a'];
-
-const StatCard: React.FC<{ title: string; value: string | number }> = ({ title, value }) => (
-  <Paper sx={{ p: 2 }}>
-    <Typography variant="body2" color="text.secondary">{title}</Typography>
-    <Typography variant="h5" fontWeight={600}>{value}</Typography>
-  </Paper>
-);
-
-type DashboardData = {
-  totalUsers: number;
-  activeSubscriptions: number;
-  totalMovies: number;
-  totalSeries: number;
-  totalWatchTime: number;
-  dailyActiveUsers: number;
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Alert, Box, Button, IconButton, Menu, MenuItem, Paper, Stack, Tooltip, Typography } from '@mui/material';
+import CloseIcon from '@mui/icons-material/Close';
+import DragIndicatorIcon from '@mui/icons-material/DragIndicator';
+import { analyticsApi, getErrorMessage, queryKeys, type DashboardLayout } from '../api';
+import DateRangeControls, { useAnalyticsRange, type AnalyticsRangeState } from '../components/DateRangeControls';
+import { WIDGETS, WIDGETS_BY_ID, clampSpan, normalizeLayout, type WidgetDefinition } from '../components/DashboardWidgets';
+
+type LayoutItem = DashboardLayout['widgets'][number];
+
+const moveWidget = (layout: LayoutItem[], fromId: string, toId: string) => {
+  const from = layout.findIndex((item) => item.id === fromId);
+  const to = layout.findIndex((item) => item.id === toId);
+  if (from < 0 || to < 0 || from === to) return layout;
+  const next = [...layout];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
 };
 
-type ViewsPerDay = { _id: string; count: number };
-type UserGrowth = { _id: string; count: number };
-type ContentDistribution = { movies: number; series: number };
-type GenreDistribution = { _id: string; count: number }[];
-type TopItem = { title: string; views?: number; totalViews?: number };
+interface WidgetFrameProps {
+  widget: WidgetDefinition;
+  span: number;
+  rangeState: AnalyticsRangeState;
+  editing: boolean;
+  dragging: boolean;
+  onDragStart: () => void;
+  onDragEnd: () => void;
+  onDropOn: () => void;
+  onResize: (span: number) => void;
+  onRemove: () => void;
+}
+
+const WidgetFrame: React.FC<WidgetFrameProps> = ({
+  widget,
+  span,
+  rangeState,
+  editing,
+  dragging,
+  onDragStart,
+  onDragEnd,
+  onDropOn,
+  onResize,
+  onRemove
+}) => {
+  const Widget = widget.component;
+
+  // Dragging the handle on the right edge snaps the widget to whole grid columns.
+  const startResize = (e: React.PointerEvent<HTMLElement>) => {
+    const frame = e.currentTarget.parentElement;
+    const grid = frame?.parentElement;
+    if (!frame || !grid) return;
+    e.preventDefault();
+    const column = grid.clientWidth / 12;
+    const startX = e.clientX;
+    const startWidth = frame.getBoundingClientRect().width;
+    const onMove = (event: PointerEvent) => onResize(clampSpan(widget, (startWidth + event.clientX - startX) / column));
+    const onUp = () => {
+      window.removeEventListener('pointermove', onMove);
+      window.removeEventListener('pointerup', onUp);
+    };
+    window.addEventListener('pointermove', onMove);
+    window.addEventListener('pointerup', onUp);
+  };
+
+  return (
+    <Box
+      data-widget
+      sx={{
+        gridColumn: { xs: 'span 12', md: `span ${span}` },
+        position: 'relative',
+        minWidth: 0,
+        opacity: dragging ? 0.4 : 1,
+        ...(editing && { outline: '2px dashed', outlineColor: 'divider', borderRadius: 1 })
+      }}
+      onDragOver={editing ? (e) => e.preventDefault() : undefined}
+      onDrop={editing ? (e) => { e.preventDefault(); onDropOn(); } : undefined}
+    >
+      {/* Charts inside don't react to clicks while arranging. */}
+      <Box sx={{ height: '100%', pointerEvents: editing ? 'none' : undefined }}>
+        <Widget rangeState={rangeState} />
+      </Box>
+      {editing && (
+        <>
+          <Stack direction="row" sx={{ position: 'absolute', top: 4, right: 12, bgcolor: 'background.paper', borderRadius: 1, boxShadow: 1 }}>
+            <Tooltip title="Drag to move">
+              <IconButton
+                size="small"
+                draggable
+                onDragStart={(e) => {
+                  const frame = e.currentTarget.closest('[data-widget]');
+                  if (frame) e.dataTransfer.setDragImage(frame, 0, 0);
+                  e.dataTransfer.effectAllowed = 'move';
+                  onDragStart();
+                }}
+                onDragEnd={onDragEnd}
+                sx={{ cursor: 'grab' }}
+              >
+                <DragIndicatorIcon fontSize="small" />
+              </IconButton>
+            </Tooltip>
+            <Tooltip title={`Remove ${widget.title}`}>
+              <IconButton size="small" onClick={onRemove}>
+                <CloseIcon fontSize="small" />
+              </IconButton>
+            </Tooltip>
+          </Stack>
+          <Box
+            onPointerDown={startResize}
+            sx={{ position: 'absolute', top: 0, right: -6, width: 12, height: '100%', cursor: 'ew-resize', display: { xs: 'none', md: 'block' } }}
+          />
+        </>
+      )}
+    </Box>
+  );
+};
 
 const Dashboard: React.FC = () => {
-  const [stats, setStats] = useState<DashboardData | null>(null);
-  const [views, setViews] = useState<ViewsPerDay[]>([]);
-  const [growth, setGrowth] = useState<UserGrowth[]>([]);
-  const [contentDist, setContentDist] = useState<ContentDistribution | null>(null);
-  const [genreDist, setGenreDist] = useState<GenreDistribution>([]);
-  const [topMovies, setTopMovies] = useState<TopItem[]>([]);
-  const [topSeries, setTopSeries] = useState<TopItem[]>([]);
-  const [recommendations, setRecommendations] = useState<any[]>([]);
+  const queryClient = useQueryClient();
+  const rangeState = useAnalyticsRange();
+  const layoutQuery = useQuery({ queryKey: queryKeys.analytics.layout(), queryFn: analyticsApi.layout, staleTime: Infinity });
+  // A working copy while customizing; null otherwise.
+  const [draft, setDraft] = useState<LayoutItem[] | null>(null);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [addAnchor, setAddAnchor] = useState<HTMLElement | null>(null);
   const [error, setError] = useState('');
 
-  const load = async () => {
+  const saved = normalizeLayout(layoutQuery.data);
+  const layout = draft ?? saved;
+  const editing = draft !== null;
+  const available = WIDGETS.filter((widget) => !layout.some((item) => item.id === widget.id));
+
+  const saveMutation = useMutation({
+    mutationFn: (widgets: LayoutItem[]) => analyticsApi.saveLayout({ widgets }),
+    onSuccess: (data) => {
+      queryClient.setQueryData(queryKeys.analytics.layout(), data);
+      setDraft(null);
+    },
+    onError: (err) => setError(getErrorMessage(err, 'Failed to save layout'))
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: analyticsApi.resetLayout,
+    onSuccess: () => {
+      queryClient.setQueryData(queryKeys.analytics.layout(), null);
+      setDraft(null);
+    },
+    onError: (err) => setError(getErrorMessage(err, 'Failed to reset layout'))
+  });
+
+  const busy = saveMutation.isPending || resetMutation.isPending;
+
+  const updateDraft = (update: (items: LayoutItem[]) => LayoutItem[]) => setDraft((prev) => update(prev ?? saved));
+
+  const startEditing = () => {
     setError('');
-    try {
-      const [dash, viewsRes, distRes, genreRes, growthRes, topRes, recRes] = await Promise.all([
-        api.get('/admin/analytics/dashboard'),
-        api.get('/admin/analytics/views-per-day'),
-        api.get('/admin/analytics/content-distribution'),
-        api.get('/admin/analytics/genre-distribution'),
-        api.get('/admin/analytics/user-growth'),
-        api.get('/admin/analytics/top-content'),
-        api.get('/recommendations')
-      ]);
-
-      setStats(dash.data.data);
-      setViews(viewsRes.data.data.viewsPerDay || []);
-      setContentDist(distRes.data.data);
-      setGenreDist(genreRes.data.data.genreDistribution || []);
-      setGrowth(growthRes.data.data.userGrowth || []);
-      setTopMovies(topRes.data.data.topMovies || []);
-      setTopSeries(topRes.data.data.topSeries || []);
-      setRecommendations(recRes.data.data || []);
-    } catch (err: any) {
-      setError(err?.response?.data?.message || 'Failed to load analytics');
-    }
+    setDraft(saved);
   };
 
-  useEffect(() => { load(); }, []);
+  const handleReset = () => {
+    if (!confirm('Reset your dashboard to the default layout? Your saved layout will be discarded.')) return;
+    setError('');
+    resetMutation.mutate();
+  };
 
   return (
     <Stack spacing={2}>
-      {/* Recommended for You Row */}
-      {recommendations.length > 0 && (
-        <Paper sx={{ p: 2 }}>
-          <Typography variant="h6">Recommended for You</Typography>
-          <Stack direction="row" spacing={2} sx={{ overflowX: 'auto', py: 1 }}>
-            {recommendations.map((item, idx) => (
-              <Box key={item._id || idx} sx={{ minWidth: 160, maxWidth: 180 }}>
-                <img
-                  src={item.poster?.vertical || item.poster?.horizontal}
-                  alt={item.title}
-                  style={{ width: '100%', borderRadius: 8, objectFit: 'cover' }}
-                />
-                <Typography variant="subtitle2" noWrap>{item.title}</Typography>
-              </Box>
-            ))}
-          </Stack>
-        </Paper>
+      <Stack direction="row" justifyContent="flex-end" spacing={1}>
+        {editing ? (
+          <>
+            <Button variant="outlined" onClick={(e) => setAddAnchor(e.currentTarget)} disabled={!available.length || busy}>Add widget</Button>
+            <Button color="warning" onClick={handleReset} disabled={busy}>Reset to default</Button>
+            <Button onClick={() => setDraft(null)} disabled={busy}>Cancel</Button>
+            <Button variant="contained" onClick={() => saveMutation.mutate(layout)} disabled={busy}>
+              {saveMutation.isPending ? 'Saving…' : 'Save layout'}
+            </Button>
+          </>
+        ) : (
+          <Button variant="outlined" onClick={startEditing} disabled={layoutQuery.isLoading}>Customize</Button>
+        )}
+      </Stack>
+      <Menu anchorEl={addAnchor} open={!!addAnchor} onClose={() => setAddAnchor(null)}>
+        {available.map((widget) => (
+          <MenuItem
+            key={widget.id}
+            onClick={() => {
+              updateDraft((items) => [...items, { id: widget.id, span: widget.defaultSpan }]);
+              setAddAnchor(null);
+            }}
+          >
+            {widget.title}
+          </MenuItem>
+        ))}
+      </Menu>
+      {layoutQuery.error && (
+        <Alert severity="warning">{getErrorMessage(layoutQuery.error, 'Failed to load your saved layout')}; showing the default.</Alert>
       )}
       {error && <Alert severity="error">{error}</Alert>}
-      <Grid container spacing={2}>
-        <Grid item xs={12} sm={6} md={3}><StatCard title="Total Users" value={stats?.totalUsers ?? '--'} /></Grid>
-        <Grid item xs={12} sm={6} md={3}><StatCard title="Premium Users" value={stats?.activeSubscriptions ?? '--'} /></Grid>
-        <Grid item xs={12} sm={6} md={3}><StatCard title="Published Movies" value={stats?.totalMovies ?? '--'} /></Grid>
-        <Grid item xs={12} sm={6} md={3}><StatCard title="Published Series" value={stats?.totalSeries ?? '--'} /></Grid>
-        <Grid item xs={12} sm={6} md={3}><StatCard title="Daily Active" value={stats?.dailyActiveUsers ?? '--'} /></Grid>
-        <Grid item xs={12} sm={6} md={3}><StatCard title="Watch Time (min)" value={stats?.totalWatchTime ?? '--'} /></Grid>
-      </Grid>
-
-      <Grid container spacing={2}>
-        <Grid item xs={12} md={6}>
-          <Paper sx={{ p: 2, height: 320 }}>
-            <Typography variant="h6">Views (30d)</Typography>
-            <ResponsiveContainer width="100%" height="90%">
-              <LineChart data={views}>
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="_id" tick={{ fontSize: 12 }} />
-                <YAxis allowDecimals={false} />
-                <Tooltip />
-                <Line type="monotone" dataKey="count" stroke="#0f62fe" strokeWidth={2} dot={false} />
-              </LineChart>
-            </ResponsiveContainer>
-          </Paper>
-        </Grid>
-        <Grid item xs={12} md={6}>
-          <Paper sx={{ p: 2, height: 320 }}>
-            <Typography variant="h6">User Growth (30d)</Typography>
-            <ResponsiveContainer width="100%" height="90%">
-              <BarChart data={growth}>
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="_id" tick={{ fontSize: 12 }} />
-                <YAxis allowDecimals={false} />
-                <Tooltip />
-                <Bar dataKey="count" fill="#36cfc9" radius={[6,6,0,0]} />
-              </BarChart>
-            </ResponsiveContainer>
-          </Paper>
-        </Grid>
-      </Grid>
-
-      <Grid container spacing={2}>
-        <Grid item xs={12} md={6} lg={4}>
-          <Paper sx={{ p: 2, height: 320 }}>
-            <Typography variant="h6">Content Mix</Typography>
-            <ResponsiveContainer width="100%" height="90%">
-              <PieChart>
-                <Pie dataKey="value" data={[
-                  { name: 'Movies', value: contentDist?.movies ?? 0 },
-                  { name: 'Series', value: contentDist?.series ?? 0 }
-                ]} innerRadius={50} outerRadius={90} paddingAngle={4}>
-                  {[0,1].map((i) => <Cell key={i} fill={COLORS[i]} />)}
-                </Pie>
-                <Tooltip />
-              </PieChart>
-            </ResponsiveContainer>
-            <Stack direction="row" spacing={1} justifyContent="center">
-              <Chip size="small" label={`Movies: ${contentDist?.movies ?? 0}`} />
-              <Chip size="small" label={`Series: ${contentDist?.series ?? 0}`} />
-            </Stack>
-          </Paper>
-        </Grid>
-        <Grid item xs={12} md={6} lg={4}>
-          <Paper sx={{ p: 2, height: 320 }}>
-            <Typography variant="h6">Genres</Typography>
-            <ResponsiveContainer width="100%" height="90%">
-              <PieChart>
-                <Pie dataKey="count" data={genreDist} nameKey="_id" innerRadius={50} outerRadius={90}>
-                  {genreDist.map((_, i) => <Cell key={i} fill={COLORS[i % COLORS.length]} />)}
-                </Pie>
-                <Tooltip />
-              </PieChart>
-            </ResponsiveContainer>
-          </Paper>
-        </Grid>
-        <Grid item xs={12} lg={4}>
-          <Paper sx={{ p: 2, height: 320, overflow: 'auto' }}>
-            <Typography variant="h6">Top Content</Typography>
-            <Box mt={2}>
-              <Typography variant="subtitle2">Movies</Typography>
-              {topMovies.map((m, idx) => (
-                <Stack key={m.title + idx} direction="row" justifyContent="space-between" py={0.5}>
-                  <Typography variant="body2">{m.title}</Typography>
-                  <Typography variant="body2" color="text.secondary">{m.views ?? 0} views</Typography>
-                </Stack>
-              ))}
-            </Box>
-            <Box mt={2}>
-              <Typography variant="subtitle2">Series</Typography>
-              {topSeries.map((s, idx) => (
-                <Stack key={s.title + idx} direction="row" justifyContent="space-between" py={0.5}>
-                  <Typography variant="body2">{s.title}</Typography>
-                  <Typography variant="body2" color="text.secondary">{s.totalViews ?? 0} views</Typography>
-                </Stack>
-              ))}
-            </Box>
-          </Paper>
-        </Grid>
-      </Grid>
+      {editing && <Alert severity="info">Drag widgets by their handle to reorder, drag the right edge to resize, then save.</Alert>}
+      <DateRangeControls state={rangeState} />
+
+      <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(12, minmax(0, 1fr))', gap: 2 }}>
+        {layout.map((item) => {
+          const widget = WIDGETS_BY_ID.get(item.id);
+          if (!widget) return null;
+          return (
+            <WidgetFrame
+              key={item.id}
+              widget={widget}
+              span={item.span}
+              rangeState={rangeState}
+              editing={editing}
+              dragging={draggingId === item.id}
+              onDragStart={() => setDraggingId(item.id)}
+              onDragEnd={() => setDraggingId(null)}
+              onDropOn={() => {
+                if (draggingId) updateDraft((items) => moveWidget(items, draggingId, item.id));
+                setDraggingId(null);
+              }}
+              onResize={(span) => updateDraft((items) => items.map((i) => (i.id === item.id ? { ...i, span } : i)))}
+              onRemove={() => updateDraft((items) => items.filter((i) => i.id !== item.id))}
+            />
+          );
+        })}
+      </Box>
+      {!layout.length && (
+        <Paper sx={{ p: 4, textAlign: 'center' }}>
+          <Typography variant="body2" color="text.secondary">
+            {editing ? 'Add widgets to build your dashboard.' : 'Your dashboard is empty. Use Customize to add widgets.'}
+          </Typography>
+        </Paper>
+      )}
     </Stack>
   );
 };
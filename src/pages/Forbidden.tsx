@@ -0,0 +1,31 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Box, Button, Paper, Stack, Typography } from '@mui/material';
+import BlockIcon from '@mui/icons-material/Block';
+import { useAuth } from '../state/AuthContext';
+
+const Forbidden: React.FC = () => {
+  const { user, logout } = useAuth();
+  const navigate = useNavigate();
+
+  return (
+    <Box sx={{ display: 'grid', placeItems: 'center', py: 8 }}>
+      <Paper sx={{ p: 4, maxWidth: 440, textAlign: 'center' }}>
+        <Stack spacing={2} alignItems="center">
+          <BlockIcon color="error" sx={{ fontSize: 48 }} />
+          <Typography variant="h5">403 – Not allowed</Typography>
+          <Typography variant="body2" color="text.secondary">
+            Your account ({user?.email}, role {user?.role || 'unknown'}) doesn't have permission to view this page.
+            Ask a super admin if you need access.
+          </Typography>
+          <Stack direction="row" spacing={1}>
+            <Button variant="outlined" onClick={() => navigate(-1)}>Go back</Button>
+            <Button onClick={logout}>Switch account</Button>
+          </Stack>
+        </Stack>
+      </Paper>
+    </Box>
+  );
+};
+
+export default Forbidden;
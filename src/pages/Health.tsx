@@ -1,39 +1,21 @@
-import React, { useEffect, useState } from 'react';
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { Alert, Button, Paper, Stack, Typography, Box, Chip } from '@mui/material';
 import CheckCircleIcon from '@mui/icons-material/CheckCircle';
 import CancelIcon from '@mui/icons-material/Cancel';
-import api from '../api/client';
-
-interface HealthState {
-  cloudinary: { ok: boolean; message: string };
-  cloudflare: { ok: boolean; message: string };
-}
+import { getErrorMessage, integrationsApi, queryKeys } from '../api';
 
 const Health: React.FC = () => {
-  const [data, setData] = useState<HealthState | null>(null);
-  const [error, setError] = useState('');
-  const [loading, setLoading] = useState(false);
-
-  const load = async () => {
-    setLoading(true);
-    setError('');
-    try {
-      const res = await api.get('/admin/integrations/health');
-      setData(res.data.data);
-    } catch (err: any) {
-      setError(err?.response?.data?.message || 'Health check failed');
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  useEffect(() => { load(); }, []);
+  const healthQuery = useQuery({ queryKey: queryKeys.integrations.health, queryFn: integrationsApi.health });
+  const data = healthQuery.data ?? null;
+  const loading = healthQuery.isFetching;
+  const error = healthQuery.error ? getErrorMessage(healthQuery.error, 'Health check failed') : '';
 
   return (
     <Stack spacing={2}>
       <Stack direction="row" justifyContent="space-between" alignItems="center">
         <Typography variant="h6">Integrations Health</Typography>
-        <Button variant="outlined" onClick={load} disabled={loading}>{loading ? 'Checking…' : 'Re-run'}</Button>
+        <Button variant="outlined" onClick={() => healthQuery.refetch()} disabled={loading}>{loading ? 'Checking…' : 'Re-run'}</Button>
       </Stack>
       {error && <Alert severity="error">{error}</Alert>}
       {data && (
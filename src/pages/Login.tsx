@@ -1,10 +1,10 @@
 import React, { useEffect, useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { Navigate, useNavigate } from 'react-router-dom';
 import { Alert, Box, Button, Card, CardContent, Stack, TextField, Typography } from '@mui/material';
 import { useAuth } from '../state/AuthContext';
 
 const Login: React.FC = () => {
-  const { login, logout, loading } = useAuth();
+  const { user, login, logout, loading } = useAuth();
   const navigate = useNavigate();
   // Prefill with the known admin test user created on the deployed API.
   const [email, setEmail] = useState('admin.test@example.com');
@@ -27,6 +27,9 @@ const Login: React.FC = () => {
     }
   };
 
+  // Another tab signed in while this one sat on the login page.
+  if (user) return <Navigate to="/" replace />;
+
   return (
     <Box sx={{ display: 'grid', placeItems: 'center', minHeight: '100vh', bgcolor: 'background.default', p: 2 }}>
       <Card sx={{ width: 360 }}>
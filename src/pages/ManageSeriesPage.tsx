@@ -1,5 +1,6 @@
 import React, { useEffect, useState } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import {
   Alert,
   Box,
@@ -23,49 +24,78 @@ import {
   TextField,
   Typography,
   Chip,
-  InputAdornment,
+  Menu,
+  MenuItem,
   Tooltip
 } from '@mui/material';
+import ArrowDownwardIcon from '@mui/icons-material/ArrowDownward';
+import ArrowUpwardIcon from '@mui/icons-material/ArrowUpward';
 import DeleteIcon from '@mui/icons-material/Delete';
+import DragIndicatorIcon from '@mui/icons-material/DragIndicator';
+import DriveFileMoveIcon from '@mui/icons-material/DriveFileMove';
 import EditIcon from '@mui/icons-material/Edit';
 import ArrowBackIcon from '@mui/icons-material/ArrowBack';
-import CloudUploadIcon from '@mui/icons-material/CloudUpload';
-import api from '../api/client';
-
-interface Episode {
-  _id?: string;
-  episodeNumber: number;
-  title: string;
-  description: string;
-  duration: number;
-  cloudflareVideoId: string;
-  thumbnail: string;
-}
-
-interface Season {
-  seasonNumber: number;
-  episodes: Episode[];
-}
-
-interface SeriesData {
-  _id: string;
-  title: string;
-  poster?: { vertical: string; horizontal: string };
-  seasons?: Season[];
-}
+import {
+  getErrorMessage,
+  integrationsApi,
+  queryKeys,
+  seriesApi,
+  toApiError,
+  type Episode,
+  type EpisodePayload,
+  type Season,
+  type SeasonPayload
+} from '../api';
+import BulkEpisodesDialog, { episodeMissingFields } from '../components/BulkEpisodesDialog';
+import { parseIsoDate } from '../components/DateRangeControls';
+import ImageUploader from '../components/ImageUploader';
+import OmdbSeasonImportDialog, { type SeasonImport } from '../components/OmdbSeasonImportDialog';
+import SeasonDialog from '../components/SeasonDialog';
+import VideoUploader from '../components/VideoUploader';
+import { useUnsavedChangesPrompt } from '../routes/useUnsavedChangesPrompt';
+
+// Season number -> episode ids in play order.
+type EpisodeLists = Record<number, string[]>;
+
+const byEpisodeNumber = (a: Episode, b: Episode) => a.episodeNumber - b.episodeNumber;
+
+const savedLists = (seasons: Season[]): EpisodeLists =>
+  Object.fromEntries(seasons.map((s) => [s.seasonNumber, [...s.episodes].sort(byEpisodeNumber).flatMap((e) => (e._id ? [e._id] : []))]));
+
+// Takes the episode out of whichever season holds it and inserts it at `index` in `toSeason`
+// (appended when no index is given).
+const moveEpisode = (lists: EpisodeLists, episodeId: string, toSeason: number, index?: number): EpisodeLists => {
+  const next: EpisodeLists = Object.fromEntries(Object.entries(lists).map(([season, ids]) => [season, ids.filter((id) => id !== episodeId)]));
+  const target = [...(next[toSeason] || [])];
+  target.splice(index ?? target.length, 0, episodeId);
+  next[toSeason] = target;
+  return next;
+};
+
+const numberingIssues = (episodes: Episode[]) => {
+  const counts = new Map<number, number>();
+  episodes.forEach((e) => counts.set(e.episodeNumber, (counts.get(e.episodeNumber) || 0) + 1));
+  const duplicates = [...counts].filter(([, count]) => count > 1).map(([n]) => n).sort((a, b) => a - b);
+  const max = Math.max(0, ...counts.keys());
+  const gaps = Array.from({ length: max }, (_, i) => i + 1).filter((n) => !counts.has(n));
+  return { duplicates, gaps };
+};
 
 const ManageSeriesPage: React.FC = () => {
   const { seriesId } = useParams<{ seriesId: string }>();
   const navigate = useNavigate();
 
-  const [series, setSeries] = useState<SeriesData | null>(null);
+  const queryClient = useQueryClient();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
-  const [seasonNumberInput, setSeasonNumberInput] = useState<number>(1);
+  // `season` is null when adding a new one.
+  const [seasonDialog, setSeasonDialog] = useState<{ season: Season | null } | null>(null);
+  const [bulkOpen, setBulkOpen] = useState(false);
+  const [omdbOpen, setOmdbOpen] = useState(false);
   const [selectedSeason, setSelectedSeason] = useState<number>(1);
 
-  const [episodeForm, setEpisodeForm] = useState({
+  const [episodeForm, setEpisodeForm] = useState<EpisodePayload>({
     episodeNumber: 1,
     title: '',
     description: '',
@@ -75,67 +105,52 @@ const ManageSeriesPage: React.FC = () => {
   });
 
   const [editingEpisodeId, setEditingEpisodeId] = useState<string | null>(null);
+  // Pending drag-and-drop changes, saved together in one request; null when there are none.
+  const [orderDraft, setOrderDraft] = useState<EpisodeLists | null>(null);
+  const [draggedEpisode, setDraggedEpisode] = useState<string | null>(null);
+  const [moveMenu, setMoveMenu] = useState<{ anchor: HTMLElement; episodeId: string } | null>(null);
   const [fetchingDuration, setFetchingDuration] = useState(false);
   const [durationFetched, setDurationFetched] = useState(false);
 
-  // Load series data
-  useEffect(() => {
-    loadSeries();
-  }, [seriesId]);
+  const seriesQuery = useQuery({
+    queryKey: queryKeys.series.detail(seriesId || ''),
+    queryFn: () => seriesApi.get(seriesId as string),
+    enabled: !!seriesId
+  });
+  const series = seriesQuery.data ?? null;
+  const loadError = seriesQuery.error ? getErrorMessage(seriesQuery.error, 'Failed to load series') : '';
 
-  const loadSeries = async () => {
-    if (!seriesId) return;
-    setLoading(true);
-    try {
-      const res = await api.get(`/admin/series/${seriesId}`, {
-        headers: { 'Cache-Control': 'no-cache' }
-      });
-      const data = res.data.data;
-      setSeries(data);
-      if (data.seasons && data.seasons.length > 0) {
-        setSelectedSeason(data.seasons[0].seasonNumber);
-      }
-    } catch (err: any) {
-      setError(err?.response?.data?.message || 'Failed to load series');
-    } finally {
-      setLoading(false);
+  // Keep the selected season across refetches; only fall back to the first one when it no longer exists.
+  useEffect(() => {
+    const seasons = series?.seasons || [];
+    if (seasons.length && !seasons.some((s) => s.seasonNumber === selectedSeason)) {
+      setSelectedSeason(seasons[0].seasonNumber);
     }
-  };
+  }, [series]);
+
+  // Episode changes alter both this page and the episode counts shown in the series list.
+  const refreshSeries = () =>
+    Promise.all([
+      queryClient.invalidateQueries({ queryKey: queryKeys.series.detail(seriesId || '') }),
+      queryClient.invalidateQueries({ queryKey: queryKeys.series.lists() })
+    ]);
 
   // Fetch video duration from Cloudflare
   const fetchCloudflareVideoDuration = async (videoId: string) => {
     if (!videoId) return;
     setFetchingDuration(true);
     try {
-      const res = await api.post('/admin/omdb/cloudflare-duration', { videoId });
-      const duration = res.data.data?.duration || 0;
+      const duration = await integrationsApi.getVideoDuration(videoId);
       setEpisodeForm((prev) => ({ ...prev, duration: Math.ceil(duration / 60) })); // Convert to minutes
       setDurationFetched(true);
-    } catch (err: any) {
-      console.error('Failed to fetch duration:', err);
+    } catch (err) {
+      console.error('Failed to fetch duration:', toApiError(err));
       // Duration fetch failed, user can manually enter
     } finally {
       setFetchingDuration(false);
     }
   };
 
-  // Fetch poster from Cloudinary or URL
-  const fetchPosterImage = async (cloudinaryUrl: string) => {
-    if (!cloudinaryUrl) return;
-    try {
-      // If it's a Cloudinary URL, extract the vertical poster
-      if (cloudinaryUrl.includes('cloudinary')) {
-        // Try to fetch the image to verify it exists
-        const res = await fetch(cloudinaryUrl, { method: 'HEAD' });
-        if (res.ok) {
-          setEpisodeForm((prev) => ({ ...prev, thumbnail: cloudinaryUrl }));
-        }
-      }
-    } catch (err) {
-      console.error('Failed to fetch poster:', err);
-    }
-  };
-
   // Handle Cloudflare Video ID change
   const handleCloudflareIdChange = (value: string) => {
     setEpisodeForm((prev) => ({ ...prev, cloudflareVideoId: value }));
@@ -145,31 +160,103 @@ const ManageSeriesPage: React.FC = () => {
     }
   };
 
-  // Handle Poster URL change
-  const handlePosterChange = (value: string) => {
-    setEpisodeForm((prev) => ({ ...prev, thumbnail: value }));
-    if (value && value.includes('cloudinary')) {
-      fetchPosterImage(value);
+  // Errors propagate to the dialog, which shows them and stays open, unless the season was already
+  // renumbered: the dialog still points at the old number then, so it closes and the error shows here.
+  const handleSaveSeason = async (payload: SeasonPayload) => {
+    if (!series || !seasonDialog) return;
+    const original = seasonDialog.season;
+    try {
+      if (!original) {
+        await seriesApi.addSeason(series._id, payload);
+      } else {
+        const { seasonNumber, ...details } = payload;
+        const renumbered = seasonNumber !== original.seasonNumber;
+        if (renumbered) {
+          await seriesApi.renumberSeasons(series._id, [{ from: original.seasonNumber, to: seasonNumber }]);
+        }
+        try {
+          await seriesApi.updateSeason(series._id, seasonNumber, details);
+        } catch (err) {
+          if (!renumbered) throw err;
+          setSeasonDialog(null);
+          setSelectedSeason(seasonNumber);
+          setError(`Season renumbered to ${seasonNumber}, but saving its details failed: ${getErrorMessage(err, 'unknown error')}`);
+          return;
+        }
+      }
+      setSelectedSeason(payload.seasonNumber);
+      setSuccess(original ? 'Season updated' : 'Season added');
+      setTimeout(() => setSuccess(''), 3000);
+    } finally {
+      // A renumber can succeed even if the follow-up update fails; show whatever the server now has.
+      await refreshSeries();
     }
   };
 
-  // Add new season
-  const handleAddSeason = async () => {
+  // Seasons are imported one after another; rejected episodes are reported here rather than failing the run,
+  // and re-running the import only picks up what is still missing.
+  const handleImportOmdb = async (imdbId: string, seasons: SeasonImport[]) => {
     if (!series) return;
     try {
-      if (!seasonNumberInput || seasonNumberInput < 1) {
-        setError('Season number must be at least 1');
-        return;
+      if (series.imdbId !== imdbId) await seriesApi.update(series._id, { imdbId });
+      let created = 0;
+      const failures: string[] = [];
+      for (const season of seasons) {
+        if (season.createSeason) {
+          await seriesApi.addSeason(series._id, { seasonNumber: season.seasonNumber, releaseDate: season.releaseDate });
+        }
+        if (!season.episodes.length) continue;
+        const { results } = await seriesApi.createEpisodes(series._id, season.seasonNumber, season.episodes);
+        results.forEach((result) => {
+          if (result.ok) created += 1;
+          else failures.push(`S${season.seasonNumber}E${season.episodes[result.index]?.episodeNumber}: ${result.message || 'not created'}`);
+        });
       }
+      if (seasons.length) setSelectedSeason(seasons[0].seasonNumber);
+      setError(failures.length ? `Some episodes were not imported. ${failures.join('; ')}` : '');
+      setSuccess(`Imported ${created} episode${created === 1 ? '' : 's'} from OMDB. Complete each one before publishing.`);
+      setTimeout(() => setSuccess(''), 5000);
+    } finally {
+      await refreshSeries();
+    }
+  };
+
+  const handleDeleteSeason = async (season: Season) => {
+    if (!series) return;
+    const count = season.episodes.length;
+    const cascade = count ? ` This also permanently deletes its ${count} episode${count === 1 ? '' : 's'}.` : '';
+    if (!confirm(`Delete Season ${season.seasonNumber}?${cascade}`)) return;
+    try {
+      setLoading(true);
+      setError('');
+      await seriesApi.deleteSeason(series._id, season.seasonNumber);
+      if (season.seasonNumber === selectedSeason) setEditingEpisodeId(null);
+      await refreshSeries();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to delete season'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Swaps numbers with the neighbouring season.
+  const handleMoveSeason = async (season: Season, direction: -1 | 1) => {
+    if (!series) return;
+    const ordered = [...(series.seasons || [])].sort((a, b) => a.seasonNumber - b.seasonNumber);
+    const neighbour = ordered[ordered.findIndex((s) => s.seasonNumber === season.seasonNumber) + direction];
+    if (!neighbour) return;
+    try {
       setLoading(true);
-      await api.post(`/admin/series/${series._id}/seasons`, {
-        seasonNumber: seasonNumberInput
-      });
-      setSeasonNumberInput(seasonNumberInput + 1);
-      await loadSeries();
       setError('');
-    } catch (err: any) {
-      setError(err?.response?.data?.message || 'Failed to add season');
+      await seriesApi.renumberSeasons(series._id, [
+        { from: season.seasonNumber, to: neighbour.seasonNumber },
+        { from: neighbour.seasonNumber, to: season.seasonNumber }
+      ]);
+      if (selectedSeason === season.seasonNumber) setSelectedSeason(neighbour.seasonNumber);
+      else if (selectedSeason === neighbour.seasonNumber) setSelectedSeason(season.seasonNumber);
+      await refreshSeries();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to reorder seasons'));
     } finally {
       setLoading(false);
     }
@@ -178,13 +265,7 @@ const ManageSeriesPage: React.FC = () => {
   // Add or update episode
   const handleSaveEpisode = async () => {
     if (!series) return;
-    const missing: string[] = [];
-    if (!episodeForm.title) missing.push('title');
-    if (!episodeForm.description) missing.push('description');
-    if (!episodeForm.duration) missing.push('duration');
-    if (!episodeForm.cloudflareVideoId) missing.push('Cloudflare Video ID');
-    if (!episodeForm.thumbnail) missing.push('thumbnail');
-
+    const missing = episodeMissingFields(episodeForm);
     if (missing.length) {
       setError(`Missing required: ${missing.join(', ')}`);
       return;
@@ -198,21 +279,16 @@ const ManageSeriesPage: React.FC = () => {
       
       if (editingEpisodeId) {
         // Update existing episode
-        const response = await api.put(
-          `/admin/series/${series._id}/seasons/${selectedSeason}/episodes/${editingEpisodeId}`,
-          episodeForm
-        );
-        console.log('[Episode Update] Success:', response.data);
+        await seriesApi.updateEpisode(series._id, selectedSeason, editingEpisodeId, episodeForm);
+        console.log('[Episode Update] Success');
       } else {
         // Create new episode
-        const response = await api.post(
-          `/admin/series/${series._id}/seasons/${selectedSeason}/episodes`,
-          episodeForm
-        );
-        console.log('[Episode Create] Success:', response.data);
+        await seriesApi.createEpisode(series._id, selectedSeason, episodeForm);
+        console.log('[Episode Create] Success');
       }
       setEpisodeForm({
-        episodeNumber: episodeForm.episodeNumber + 1,
+        // The season may have numbers past this one; never suggest one that is already taken.
+        episodeNumber: Math.max(nextEpisodeNumber, episodeForm.episodeNumber + 1),
         title: '',
         description: '',
         duration: 0,
@@ -221,13 +297,14 @@ const ManageSeriesPage: React.FC = () => {
       });
       setEditingEpisodeId(null);
       setDurationFetched(false);
-      await loadSeries();
+      await refreshSeries();
       setError('');
       setSuccess(editingEpisodeId ? 'Episode updated successfully' : 'Episode added successfully');
       setTimeout(() => setSuccess(''), 3000);
-    } catch (err: any) {
-      console.error('[Episode Save] Error:', err.response?.data || err.message);
-      setError(err?.response?.data?.message || err?.message || 'Failed to save episode');
+    } catch (err) {
+      const apiError = toApiError(err, 'Failed to save episode');
+      console.error('[Episode Save] Error:', apiError.message, apiError.debug);
+      setError(apiError.message);
     } finally {
       setLoading(false);
     }
@@ -242,7 +319,8 @@ const ManageSeriesPage: React.FC = () => {
       description: episode.description,
       duration: episode.duration,
       cloudflareVideoId: episode.cloudflareVideoId,
-      thumbnail: episode.thumbnail
+      thumbnail: episode.thumbnail,
+      airDate: episode.airDate ?? null
     });
   };
 
@@ -251,10 +329,8 @@ const ManageSeriesPage: React.FC = () => {
     if (!series || !confirm('Delete this episode?')) return;
     try {
       setLoading(true);
-      await api.delete(
-        `/admin/series/${series._id}/seasons/${selectedSeason}/episodes/${episodeId}`
-      );
-      await loadSeries();
+      await seriesApi.deleteEpisode(series._id, selectedSeason, episodeId);
+      await refreshSeries();
       setEditingEpisodeId(null);
       setEpisodeForm({
         episodeNumber: 1,
@@ -264,17 +340,75 @@ const ManageSeriesPage: React.FC = () => {
         cloudflareVideoId: '',
         thumbnail: ''
       });
-    } catch (err: any) {
-      setError(err?.response?.data?.message || 'Failed to delete episode');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to delete episode'));
     } finally {
       setLoading(false);
     }
   };
 
+  const orderedSeasons = [...(series?.seasons || [])].sort((a, b) => a.seasonNumber - b.seasonNumber);
   const currentSeason = series?.seasons?.find((s) => s.seasonNumber === selectedSeason);
   const currentEpisodes = currentSeason?.episodes || [];
+  const nextEpisodeNumber = Math.max(0, ...currentEpisodes.map((e) => e.episodeNumber)) + 1;
+
+  const saved = savedLists(orderedSeasons);
+  const lists = orderDraft ?? saved;
+  const episodesById = new Map(orderedSeasons.flatMap((s) => s.episodes).flatMap((e) => (e._id ? [[e._id, e] as const] : [])));
+  const listedEpisodes = (lists[selectedSeason] || []).flatMap((id) => episodesById.get(id) ?? []);
+  const changedSeasons = orderDraft
+    ? orderedSeasons.map((s) => s.seasonNumber).filter((n) => (orderDraft[n] || []).join() !== (saved[n] || []).join())
+    : [];
+  const orderDirty = changedSeasons.length > 0;
+  const selectedSeasonChanged = changedSeasons.includes(selectedSeason);
+  const savedInSelectedSeason = new Set(saved[selectedSeason] || []);
+  const issues = numberingIssues(currentEpisodes);
+
+  useUnsavedChangesPrompt(orderDirty);
+
+  const dropEpisode = (toSeason: number, index?: number) => {
+    if (draggedEpisode) setOrderDraft(moveEpisode(lists, draggedEpisode, toSeason, index));
+    setDraggedEpisode(null);
+  };
 
-  if (loading && !series) {
+  const handleSaveOrder = async () => {
+    if (!series || !orderDraft) return;
+    try {
+      setLoading(true);
+      setError('');
+      await seriesApi.reorderEpisodes(
+        series._id,
+        changedSeasons.map((seasonNumber) => ({ seasonNumber, episodeIds: orderDraft[seasonNumber] || [] }))
+      );
+      setOrderDraft(null);
+      await refreshSeries();
+      setSuccess('Episode order saved');
+      setTimeout(() => setSuccess(''), 3000);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to save episode order'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Closes duplicate numbers and gaps by numbering the season 1..n in its current order.
+  const handleRenumber = async () => {
+    if (!series) return;
+    const episodeIds = saved[selectedSeason] || [];
+    if (!confirm(`Renumber the ${episodeIds.length} episodes of Season ${selectedSeason} as 1–${episodeIds.length} in their current order?`)) return;
+    try {
+      setLoading(true);
+      setError('');
+      await seriesApi.reorderEpisodes(series._id, [{ seasonNumber: selectedSeason, episodeIds }]);
+      await refreshSeries();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to renumber episodes'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (seriesQuery.isLoading) {
     return (
       <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '80vh' }}>
         <CircularProgress />
@@ -288,7 +422,7 @@ const ManageSeriesPage: React.FC = () => {
         <Button startIcon={<ArrowBackIcon />} onClick={() => navigate('/series')}>
           Back to Series
         </Button>
-        <Alert severity="error">{error || 'Series not found'}</Alert>
+        <Alert severity="error">{loadError || error || 'Series not found'}</Alert>
       </Stack>
     );
   }
@@ -308,51 +442,105 @@ const ManageSeriesPage: React.FC = () => {
       {error && <Alert severity="error">{error}</Alert>}
       {success && <Alert severity="success">{success}</Alert>}
 
-      {/* Add Season Section */}
+      {/* Seasons */}
       <Card>
         <CardContent>
-          <Typography variant="subtitle1" sx={{ mb: 2, fontWeight: 'bold' }}>
-            Add Season
-          </Typography>
-          <Stack direction="row" spacing={2} alignItems="center">
-            <TextField
-              label="Season Number"
-              type="number"
-              value={seasonNumberInput}
-              onChange={(e) => setSeasonNumberInput(Number(e.target.value))}
-              size="small"
-              sx={{ width: 160 }}
-            />
-            <Button
-              variant="contained"
-              onClick={handleAddSeason}
-              disabled={loading}
-            >
-              Add Season
-            </Button>
+          <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 1 }}>
+            <Typography variant="subtitle1" sx={{ fontWeight: 'bold' }}>
+              Seasons
+            </Typography>
+            <Stack direction="row" spacing={1}>
+              <Button variant="outlined" onClick={() => setOmdbOpen(true)} disabled={loading || orderDirty}>
+                Import from OMDB
+              </Button>
+              <Button variant="contained" onClick={() => setSeasonDialog({ season: null })} disabled={loading}>
+                Add Season
+              </Button>
+            </Stack>
           </Stack>
+          {orderedSeasons.length > 0 ? (
+            <Table size="small">
+              <TableHead>
+                <TableRow sx={{ backgroundColor: '#f5f5f5' }}>
+                  <TableCell>#</TableCell>
+                  <TableCell>Poster</TableCell>
+                  <TableCell>Title</TableCell>
+                  <TableCell>Release</TableCell>
+                  <TableCell>Episodes</TableCell>
+                  <TableCell>Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {orderedSeasons.map((season, index) => (
+                  <TableRow
+                    key={season.seasonNumber}
+                    hover
+                    selected={selectedSeason === season.seasonNumber}
+                    onClick={() => setSelectedSeason(season.seasonNumber)}
+                    onDragOver={(e) => draggedEpisode && e.preventDefault()}
+                    onDrop={(e) => {
+                      e.preventDefault();
+                      dropEpisode(season.seasonNumber);
+                    }}
+                    sx={{ cursor: 'pointer' }}
+                  >
+                    <TableCell sx={{ fontWeight: 'bold' }}>{season.seasonNumber}</TableCell>
+                    <TableCell>
+                      <Box
+                        component="img"
+                        src={season.poster || series.poster?.vertical}
+                        alt=""
+                        sx={{ width: 32, height: 48, objectFit: 'cover', borderRadius: 0.5, bgcolor: '#eee' }}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Stack direction="row" spacing={1} alignItems="center">
+                        <Typography variant="body2">{season.title || `Season ${season.seasonNumber}`}</Typography>
+                        {season.isPremium && !series.isPremium && <Chip size="small" color="warning" label="Premium" />}
+                      </Stack>
+                    </TableCell>
+                    <TableCell>{season.releaseDate ? parseIsoDate(season.releaseDate.slice(0, 10)).toLocaleDateString() : '—'}</TableCell>
+                    <TableCell>
+                      <Stack direction="row" spacing={1} alignItems="center">
+                        <span>{(lists[season.seasonNumber] || []).length}</span>
+                        {season.episodes.some((e) => episodeMissingFields(e).length) && (
+                          <Chip
+                            size="small"
+                            color="warning"
+                            variant="outlined"
+                            label={`${season.episodes.filter((e) => episodeMissingFields(e).length).length} incomplete`}
+                          />
+                        )}
+                      </Stack>
+                    </TableCell>
+                    <TableCell onClick={(e) => e.stopPropagation()}>
+                      <Stack direction="row" spacing={0.5}>
+                        <IconButton size="small" onClick={() => handleMoveSeason(season, -1)} disabled={loading || orderDirty || index === 0}>
+                          <ArrowUpwardIcon fontSize="small" />
+                        </IconButton>
+                        <IconButton size="small" onClick={() => handleMoveSeason(season, 1)} disabled={loading || orderDirty || index === orderedSeasons.length - 1}>
+                          <ArrowDownwardIcon fontSize="small" />
+                        </IconButton>
+                        <IconButton size="small" onClick={() => setSeasonDialog({ season })} disabled={loading || orderDirty}>
+                          <EditIcon fontSize="small" />
+                        </IconButton>
+                        <IconButton size="small" color="error" onClick={() => handleDeleteSeason(season)} disabled={loading || orderDirty}>
+                          <DeleteIcon fontSize="small" />
+                        </IconButton>
+                      </Stack>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'center', py: 2 }}>
+              No seasons yet. Add one to start uploading episodes.
+            </Typography>
+          )}
         </CardContent>
       </Card>
 
-      {/* Season Selector */}
-      {(series.seasons?.length || 0) > 0 && (
-        <Stack direction="row" spacing={1} sx={{ mb: 2 }}>
-          <Typography variant="subtitle2" sx={{ alignSelf: 'center', fontWeight: 'bold' }}>
-            Seasons:
-          </Typography>
-          {series.seasons?.map((season) => (
-            <Chip
-              key={season.seasonNumber}
-              label={`Season ${season.seasonNumber}`}
-              onClick={() => setSelectedSeason(season.seasonNumber)}
-              color={selectedSeason === season.seasonNumber ? 'primary' : 'default'}
-              variant={selectedSeason === season.seasonNumber ? 'filled' : 'outlined'}
-              sx={{ cursor: 'pointer' }}
-            />
-          ))}
-        </Stack>
-      )}
-
       {/* Two Column Layout: Form (Left) + Episodes List (Right) */}
       <Grid container spacing={3}>
         {/* Left Column: Episode Form */}
@@ -439,20 +627,20 @@ const ManageSeriesPage: React.FC = () => {
                   }}
                 />
 
-                <TextField
+                <VideoUploader
+                  onUploaded={({ videoId, duration }) => {
+                    setEpisodeForm((prev) => ({ ...prev, cloudflareVideoId: videoId, duration: duration || prev.duration }));
+                    setDurationFetched(!!duration);
+                  }}
+                />
+
+                <ImageUploader
                   label="Thumbnail URL (Cloudinary)"
+                  aspect="horizontal"
+                  allowAspectChange
+                  folder="episodes"
                   value={episodeForm.thumbnail}
-                  onChange={(e) => handlePosterChange(e.target.value)}
-                  fullWidth
-                  size="small"
-                  placeholder="Paste Cloudinary vertical poster URL"
-                  InputProps={{
-                    startAdornment: (
-                      <InputAdornment position="start">
-                        <CloudUploadIcon fontSize="small" />
-                      </InputAdornment>
-                    )
-                  }}
+                  onChange={(url) => setEpisodeForm((prev) => ({ ...prev, thumbnail: url }))}
                 />
 
                 {/* Thumbnail Preview */}
@@ -476,7 +664,7 @@ const ManageSeriesPage: React.FC = () => {
                   <Button
                     variant="contained"
                     onClick={handleSaveEpisode}
-                    disabled={loading}
+                    disabled={loading || orderDirty}
                     fullWidth
                   >
                     {editingEpisodeId ? 'Update Episode' : 'Add Episode'}
@@ -490,7 +678,7 @@ const ManageSeriesPage: React.FC = () => {
                         setError('');
                         setSuccess('');
                         setEpisodeForm({
-                          episodeNumber: currentEpisodes.length + 1,
+                          episodeNumber: nextEpisodeNumber,
                           title: '',
                           description: '',
                           duration: 0,
@@ -512,15 +700,49 @@ const ManageSeriesPage: React.FC = () => {
         <Grid item xs={12} md={6}>
           <Card>
             <CardContent>
-              <Typography variant="subtitle1" sx={{ mb: 2, fontWeight: 'bold' }}>
-                Episodes - Season {selectedSeason}
-              </Typography>
+              <Stack direction="row" alignItems="center" justifyContent="space-between" sx={{ mb: 2 }}>
+                <Typography variant="subtitle1" sx={{ fontWeight: 'bold' }}>
+                  Episodes - Season {selectedSeason}
+                </Typography>
+                <Button size="small" variant="outlined" onClick={() => setBulkOpen(true)} disabled={loading || orderDirty || !currentSeason}>
+                  Bulk add
+                </Button>
+              </Stack>
 
-              {currentEpisodes.length > 0 ? (
+              {orderDirty ? (
+                <Alert
+                  severity="info"
+                  sx={{ mb: 2 }}
+                  action={
+                    <Stack direction="row" spacing={1}>
+                      <Button size="small" onClick={() => setOrderDraft(null)} disabled={loading}>Discard</Button>
+                      <Button size="small" variant="contained" onClick={handleSaveOrder} disabled={loading}>Save order</Button>
+                    </Stack>
+                  }
+                >
+                  Unsaved order changes in Season {changedSeasons.join(', ')}
+                </Alert>
+              ) : (
+                (issues.duplicates.length > 0 || issues.gaps.length > 0) && (
+                  <Alert
+                    severity="warning"
+                    sx={{ mb: 2 }}
+                    action={<Button size="small" onClick={handleRenumber} disabled={loading}>Renumber</Button>}
+                  >
+                    {[
+                      issues.duplicates.length ? `Duplicate episode numbers: ${issues.duplicates.join(', ')}` : '',
+                      issues.gaps.length ? `Missing episode numbers: ${issues.gaps.join(', ')}` : ''
+                    ].filter(Boolean).join('. ')}
+                  </Alert>
+                )
+              )}
+
+              {listedEpisodes.length > 0 ? (
                 <Box sx={{ overflowX: 'auto' }}>
                   <Table size="small">
                     <TableHead>
                       <TableRow sx={{ backgroundColor: '#f5f5f5' }}>
+                        <TableCell padding="checkbox" />
                         <TableCell>#</TableCell>
                         <TableCell>Title</TableCell>
                         <TableCell>Duration</TableCell>
@@ -528,26 +750,57 @@ const ManageSeriesPage: React.FC = () => {
                       </TableRow>
                     </TableHead>
                     <TableBody>
-                      {currentEpisodes
-                        .slice()
-                        .sort((a, b) => a.episodeNumber - b.episodeNumber)
-                        .map((episode) => (
+                      {listedEpisodes.map((episode, index) => {
+                        // Saving numbers the season 1..n, so the position is the number it will get.
+                        const moved =
+                          selectedSeasonChanged &&
+                          (episode.episodeNumber !== index + 1 || !savedInSelectedSeason.has(episode._id || ''));
+                        const missing = episodeMissingFields(episode);
+                        return (
                           <TableRow
                             key={episode._id}
+                            draggable
+                            onDragStart={(e) => {
+                              e.dataTransfer.effectAllowed = 'move';
+                              setDraggedEpisode(episode._id || null);
+                            }}
+                            onDragEnd={() => setDraggedEpisode(null)}
+                            onDragOver={(e) => draggedEpisode && e.preventDefault()}
+                            onDrop={(e) => {
+                              e.preventDefault();
+                              dropEpisode(selectedSeason, index);
+                            }}
                             sx={{
+                              opacity: draggedEpisode === episode._id ? 0.4 : 1,
                               backgroundColor:
                                 editingEpisodeId === episode._id ? '#e3f2fd' : 'inherit',
                               '&:hover': { backgroundColor: '#f5f5f5' }
                             }}
                           >
-                            <TableCell sx={{ fontWeight: 'bold' }}>
-                              {episode.episodeNumber}
+                            <TableCell padding="checkbox" sx={{ cursor: 'grab', color: 'text.secondary' }}>
+                              <DragIndicatorIcon fontSize="small" />
+                            </TableCell>
+                            <TableCell sx={{ fontWeight: 'bold', whiteSpace: 'nowrap' }}>
+                              {moved ? (
+                                <Tooltip title={`Currently episode ${episode.episodeNumber}`}>
+                                  <span>{index + 1}*</span>
+                                </Tooltip>
+                              ) : (
+                                episode.episodeNumber
+                              )}
                             </TableCell>
                             <TableCell>
                               <Stack>
-                                <Typography variant="body2" sx={{ fontWeight: 500 }}>
-                                  {episode.title}
-                                </Typography>
+                                <Stack direction="row" spacing={1} alignItems="center">
+                                  <Typography variant="body2" sx={{ fontWeight: 500 }}>
+                                    {episode.title}
+                                  </Typography>
+                                  {missing.length > 0 && (
+                                    <Tooltip title={`Missing ${missing.join(', ')}`}>
+                                      <Chip size="small" color="warning" label={episode.cloudflareVideoId ? 'Incomplete' : 'No video'} />
+                                    </Tooltip>
+                                  )}
+                                </Stack>
                                 <Typography
                                   variant="caption"
                                   color="text.secondary"
@@ -560,10 +813,22 @@ const ManageSeriesPage: React.FC = () => {
                             <TableCell>{episode.duration} min</TableCell>
                             <TableCell>
                               <Stack direction="row" spacing={0.5}>
+                                <Tooltip title="Move to another season">
+                                  <span>
+                                    <IconButton
+                                      size="small"
+                                      onClick={(e) => setMoveMenu({ anchor: e.currentTarget, episodeId: episode._id || '' })}
+                                      disabled={orderedSeasons.length < 2}
+                                    >
+                                      <DriveFileMoveIcon fontSize="small" />
+                                    </IconButton>
+                                  </span>
+                                </Tooltip>
                                 <IconButton
                                   size="small"
                                   onClick={() => handleEditEpisode(episode)}
                                   color={editingEpisodeId === episode._id ? 'primary' : 'default'}
+                                  disabled={orderDirty}
                                 >
                                   <EditIcon fontSize="small" />
                                 </IconButton>
@@ -571,15 +836,20 @@ const ManageSeriesPage: React.FC = () => {
                                   size="small"
                                   color="error"
                                   onClick={() => handleDeleteEpisode(episode._id || '')}
+                                  disabled={orderDirty}
                                 >
                                   <DeleteIcon fontSize="small" />
                                 </IconButton>
                               </Stack>
                             </TableCell>
                           </TableRow>
-                        ))}
+                        );
+                      })}
                     </TableBody>
                   </Table>
+                  <Typography variant="caption" color="text.secondary">
+                    Drag rows to reorder, or drop one on a season above to move it there.
+                  </Typography>
                 </Box>
               ) : (
                 <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'center', py: 3 }}>
@@ -590,6 +860,42 @@ const ManageSeriesPage: React.FC = () => {
           </Card>
         </Grid>
       </Grid>
+
+      <Menu anchorEl={moveMenu?.anchor} open={!!moveMenu} onClose={() => setMoveMenu(null)}>
+        {orderedSeasons
+          .filter((season) => season.seasonNumber !== selectedSeason)
+          .map((season) => (
+            <MenuItem
+              key={season.seasonNumber}
+              onClick={() => {
+                if (moveMenu) setOrderDraft(moveEpisode(lists, moveMenu.episodeId, season.seasonNumber));
+                setMoveMenu(null);
+              }}
+            >
+              Move to Season {season.seasonNumber}
+            </MenuItem>
+          ))}
+      </Menu>
+
+      <SeasonDialog
+        open={!!seasonDialog}
+        season={seasonDialog?.season ?? null}
+        takenNumbers={orderedSeasons.map((s) => s.seasonNumber).filter((n) => n !== seasonDialog?.season?.seasonNumber)}
+        seriesIsPremium={series.isPremium}
+        onClose={() => setSeasonDialog(null)}
+        onSave={handleSaveSeason}
+      />
+
+      <OmdbSeasonImportDialog open={omdbOpen} series={series} onClose={() => setOmdbOpen(false)} onImport={handleImportOmdb} />
+
+      <BulkEpisodesDialog
+        open={bulkOpen}
+        seasonNumber={selectedSeason}
+        existingNumbers={currentEpisodes.map((e) => e.episodeNumber)}
+        onClose={() => setBulkOpen(false)}
+        onCreate={(episodes) => seriesApi.createEpisodes(series._id, selectedSeason, episodes).then((data) => data.results)}
+        onCreated={refreshSeries}
+      />
     </Stack>
   );
 };
@@ -0,0 +1,188 @@
+import React, { useMemo } from 'react';
+import { Link as RouterLink } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  Alert,
+  Button,
+  Chip,
+  LinearProgress,
+  Link,
+  Paper,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography
+} from '@mui/material';
+import { getErrorMessage, moviesApi, queryKeys, seriesApi } from '../api';
+import { useAuth } from '../state/AuthContext';
+import BulkActionBar, { RowCheckbox, SelectAllCheckbox, useBulkActions } from '../components/BulkActionBar';
+import { languageLabel, metadataIssues, useTaxonomy, type MetadataIssues } from '../components/ContentMetadata';
+import { fetchAllPages } from '../components/ExportButton';
+
+interface TitleRecord {
+  _id: string;
+  kind: 'movie' | 'series';
+  title: string;
+  language?: string | null;
+  genres?: string[] | null;
+}
+
+type AuditRow = TitleRecord & { issues: MetadataIssues };
+
+// The check runs against every stored title, so walk all pages of both catalogues.
+const loadTitles = async (): Promise<TitleRecord[]> => {
+  const movies = await fetchAllPages(async (page, limit) => {
+    const data = await moviesApi.list({ page, limit });
+    return { rows: data.movies, total: data.pagination?.total ?? data.total };
+  });
+  const series = await fetchAllPages(async (page, limit) => {
+    const data = await seriesApi.list({ page, limit });
+    return { rows: data.series, total: data.pagination?.total ?? data.total };
+  });
+  return [
+    ...movies.map((movie) => ({ _id: movie._id, kind: 'movie' as const, title: movie.title, language: movie.language, genres: movie.genres })),
+    ...series.map((show) => ({ _id: show._id, kind: 'series' as const, title: show.title, language: show.language, genres: show.genres }))
+  ];
+};
+
+// Only the fields that disagree are written; a value with no match has to be fixed on the title itself.
+const suggestedChanges = (row: AuditRow) => {
+  const changes: { language?: string; genres?: string[] } = {};
+  const { language, genres } = row.issues;
+  if (language) {
+    if (!language.suggestion) throw new Error(`"${language.stored}" matches no language; edit the title instead`);
+    changes.language = language.suggestion;
+  }
+  if (genres) {
+    if (!genres.suggestion.length) throw new Error('None of its genres are in the list; edit the title instead');
+    changes.genres = genres.suggestion;
+  }
+  return changes;
+};
+
+const MetadataMigration: React.FC = () => {
+  const { can } = useAuth();
+  const queryClient = useQueryClient();
+  const { taxonomy, ready, error: taxonomyError } = useTaxonomy();
+  const titlesQuery = useQuery({ queryKey: queryKeys.metadata.audit(), queryFn: loadTitles });
+  const titles = titlesQuery.data;
+
+  const rows = useMemo<AuditRow[]>(() => {
+    if (!ready || !titles) return [];
+    return titles.flatMap((title) => {
+      const issues = metadataIssues(title, taxonomy);
+      return issues ? [{ ...title, issues }] : [];
+    });
+  }, [titles, taxonomy, ready]);
+
+  const refresh = () =>
+    Promise.all([
+      queryClient.invalidateQueries({ queryKey: queryKeys.metadata.audit() }),
+      queryClient.invalidateQueries({ queryKey: queryKeys.movies.all }),
+      queryClient.invalidateQueries({ queryKey: queryKeys.series.all })
+    ]);
+  const bulk = useBulkActions(rows, { getLabel: (row) => row.title, onComplete: refresh });
+
+  const applySuggestions = () => bulk.run(async (row) => {
+    const changes = suggestedChanges(row);
+    if (row.kind === 'movie') await moviesApi.update(row._id, changes);
+    else await seriesApi.update(row._id, changes);
+  });
+
+  const loading = titlesQuery.isFetching || (!ready && !taxonomyError);
+  const loadError = taxonomyError || titlesQuery.error;
+
+  return (
+    <Stack spacing={2}>
+      <Stack direction="row" justifyContent="space-between" alignItems="center">
+        <Typography variant="h6">Metadata migration</Typography>
+        <Button variant="outlined" onClick={() => titlesQuery.refetch()} disabled={loading}>{loading ? 'Checking…' : 'Re-check'}</Button>
+      </Stack>
+      <Typography variant="body2" color="text.secondary">
+        Titles whose stored language or genres are not in the current lists. Languages are stored as ISO codes; older titles
+        may still hold a display name in another spelling.
+      </Typography>
+      {loadError && <Alert severity="error">{getErrorMessage(loadError, 'Failed to check titles')}</Alert>}
+      {loading && <LinearProgress />}
+      {!loading && titles && ready && (
+        <Alert severity={rows.length ? 'warning' : 'success'}>
+          {rows.length ? `${rows.length} of ${titles.length} titles need attention.` : `All ${titles.length} titles match the current lists.`}
+        </Alert>
+      )}
+      <BulkActionBar bulk={bulk}>
+        <Button size="small" onClick={applySuggestions} disabled={bulk.running || !can('content:edit')}>Apply suggestions</Button>
+      </BulkActionBar>
+      {rows.length > 0 && (
+        <Paper>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell padding="checkbox"><SelectAllCheckbox bulk={bulk} /></TableCell>
+                <TableCell>Title</TableCell>
+                <TableCell>Type</TableCell>
+                <TableCell>Language</TableCell>
+                <TableCell>Genres</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {rows.map((row) => {
+                const { language, genres } = row.issues;
+                return (
+                  <TableRow key={`${row.kind}-${row._id}`} hover>
+                    <TableCell padding="checkbox"><RowCheckbox bulk={bulk} id={row._id} /></TableCell>
+                    <TableCell>
+                      {row.kind === 'movie' ? (
+                        <Link component={RouterLink} to={`/content/${row._id}`} underline="hover">{row.title}</Link>
+                      ) : (
+                        row.title
+                      )}
+                    </TableCell>
+                    <TableCell><Chip size="small" label={row.kind === 'movie' ? 'Movie' : 'Series'} /></TableCell>
+                    <TableCell>
+                      {language ? (
+                        <Stack spacing={0.5}>
+                          <Typography variant="body2" sx={{ textDecoration: 'line-through' }}>{language.stored}</Typography>
+                          {language.suggestion ? (
+                            <Typography variant="caption">→ {languageLabel(language.suggestion, taxonomy)}</Typography>
+                          ) : (
+                            <Typography variant="caption" color="error">No match</Typography>
+                          )}
+                        </Stack>
+                      ) : (
+                        languageLabel(row.language, taxonomy) || '—'
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {genres ? (
+                        <Stack spacing={0.5}>
+                          <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap>
+                            {genres.unknown.map((genre) => (
+                              <Chip key={genre} size="small" color="warning" variant="outlined" label={genre} />
+                            ))}
+                            {!genres.unknown.length && <Typography variant="caption">More than {taxonomy.maxGenres} genres</Typography>}
+                          </Stack>
+                          {genres.suggestion.length ? (
+                            <Typography variant="caption">→ {genres.suggestion.join(', ')}</Typography>
+                          ) : (
+                            <Typography variant="caption" color="error">No match</Typography>
+                          )}
+                        </Stack>
+                      ) : (
+                        (row.genres || []).join(', ')
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </Paper>
+      )}
+    </Stack>
+  );
+};
+
+export default MetadataMigration;
@@ -0,0 +1,231 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Divider,
+  Grid,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  Paper,
+  Stack,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import ArrowBackIcon from '@mui/icons-material/ArrowBack';
+import UndoIcon from '@mui/icons-material/Undo';
+import { getErrorMessage, moviesApi, queryKeys, toApiError, type ContentChange, type Movie, type MoviePayload } from '../api';
+import { useAuth } from '../state/AuthContext';
+import { formatAuthor } from '../utils/format';
+import { useTaxonomy } from '../components/ContentMetadata';
+import MovieForm, { emptyMovie, toMoviePayload, validateMovie } from '../components/MovieForm';
+import { PublishStatusChip } from '../components/PublishDialog';
+import { useUnsavedChangesPrompt } from '../routes/useUnsavedChangesPrompt';
+
+// History entries name nested fields with dotted paths, e.g. `poster.vertical`.
+const getPath = (obj: any, path: string) => path.split('.').reduce((acc, key) => acc?.[key], obj);
+
+const setPath = <T,>(obj: T, path: string, value: unknown): T => {
+  const [key, ...rest] = path.split('.');
+  const current = (obj as any) ?? {};
+  return { ...current, [key]: rest.length ? setPath(current[key], rest.join('.'), value) : value };
+};
+
+const formatValue = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return '—';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 80)}…` : text;
+};
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const MovieDetail: React.FC = () => {
+  const { movieId = '' } = useParams<{ movieId: string }>();
+  const navigate = useNavigate();
+  const { can } = useAuth();
+  const queryClient = useQueryClient();
+  const { taxonomy, ready: taxonomyReady } = useTaxonomy();
+  const canEdit = can('content:edit');
+
+  const movieQuery = useQuery({ queryKey: queryKeys.movies.detail(movieId), queryFn: () => moviesApi.get(movieId) });
+  const historyQuery = useQuery({ queryKey: queryKeys.movies.history(movieId), queryFn: () => moviesApi.history(movieId) });
+
+  // `synced` is the server copy the form was last loaded from; edits are measured against it.
+  const [synced, setSynced] = useState<Movie | null>(null);
+  const [form, setForm] = useState<MoviePayload>(emptyMovie());
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const baseline = synced ? toMoviePayload(synced) : null;
+  const dirty = !!baseline && !sameValue(form, baseline);
+  const movie = movieQuery.data;
+  // A background refetch never overwrites edits in progress; we just point out that the stored copy moved on.
+  const staleWhileEditing = !!movie && !!synced && movie !== synced && dirty;
+
+  useUnsavedChangesPrompt(dirty);
+
+  useEffect(() => {
+    if (!movie || movie === synced || dirty) return;
+    setSynced(movie);
+    setForm(toMoviePayload(movie));
+  }, [movie]);
+
+  const discard = () => {
+    if (!movie) return;
+    setSynced(movie);
+    setForm(toMoviePayload(movie));
+    setFieldErrors({});
+    setError('');
+  };
+
+  const handleSave = async () => {
+    setError('');
+    setSuccess('');
+    setFieldErrors({});
+    const invalid = validateMovie(form, taxonomy);
+    if (invalid) {
+      setFieldErrors(invalid.fieldErrors);
+      setError(invalid.message);
+      return;
+    }
+    setSaving(true);
+    try {
+      await moviesApi.update(movieId, form);
+      const saved = await moviesApi.get(movieId);
+      queryClient.setQueryData(queryKeys.movies.detail(movieId), saved);
+      setSynced(saved);
+      setForm(toMoviePayload(saved));
+      setSuccess('Movie saved');
+      setTimeout(() => setSuccess(''), 3000);
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: queryKeys.movies.history(movieId) }),
+        queryClient.invalidateQueries({ queryKey: queryKeys.movies.lists() })
+      ]);
+    } catch (err) {
+      const apiError = toApiError(err, 'Save failed');
+      setFieldErrors(apiError.fieldErrors);
+      setError(apiError.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Reverting only stages the old value in the form, so it goes through the same validation and save.
+  const revert = (change: ContentChange) => {
+    setForm((prev) => setPath(prev, change.field, change.oldValue ?? ''));
+  };
+
+  const canRevert = (change: ContentChange) =>
+    canEdit && change.field.split('.')[0] in form && !sameValue(getPath(form, change.field), change.oldValue);
+
+  if (movieQuery.isLoading || (movie && !synced)) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '80vh' }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (!movie) {
+    return (
+      <Stack spacing={2}>
+        <Button startIcon={<ArrowBackIcon />} onClick={() => navigate('/content')} sx={{ alignSelf: 'flex-start' }}>
+          Back to Movies
+        </Button>
+        <Alert severity="error">{movieQuery.error ? getErrorMessage(movieQuery.error, 'Failed to load movie') : 'Movie not found'}</Alert>
+      </Stack>
+    );
+  }
+
+  const history = [...(historyQuery.data || [])].sort((a, b) => b.changedAt.localeCompare(a.changedAt));
+
+  return (
+    <Stack spacing={2}>
+      <Stack direction="row" alignItems="center" spacing={2}>
+        <IconButton onClick={() => navigate('/content')} size="small">
+          <ArrowBackIcon />
+        </IconButton>
+        <Typography variant="h5" sx={{ flex: 1 }}>
+          {synced?.title || movie.title} {dirty && <Typography component="span" color="text.secondary">· unsaved changes</Typography>}
+        </Typography>
+        <PublishStatusChip item={movie} />
+        <Button onClick={discard} disabled={!dirty || saving}>Discard</Button>
+        <Button variant="contained" onClick={handleSave} disabled={!canEdit || !dirty || saving || !taxonomyReady}>
+          {saving ? 'Saving…' : 'Save'}
+        </Button>
+      </Stack>
+
+      {error && <Alert severity="error">{error}</Alert>}
+      {success && <Alert severity="success">{success}</Alert>}
+      {staleWhileEditing && (
+        <Alert severity="warning" action={<Button color="inherit" size="small" onClick={discard}>Load latest</Button>}>
+          This movie was changed elsewhere since you started editing. Saving will overwrite those changes.
+        </Alert>
+      )}
+
+      <Grid container spacing={2}>
+        <Grid item xs={12} md={8}>
+          <Paper sx={{ p: 2 }}>
+            <MovieForm
+              form={form}
+              setForm={setForm}
+              fieldErrors={fieldErrors}
+              disabled={!canEdit || saving}
+            />
+          </Paper>
+        </Grid>
+        <Grid item xs={12} md={4}>
+          <Paper sx={{ p: 2 }}>
+            <Typography variant="h6">Change history</Typography>
+            <Typography variant="caption" color="text.secondary">
+              Reverting puts the previous value back into the form; save to apply it.
+            </Typography>
+            <Divider sx={{ my: 1 }} />
+            {historyQuery.isLoading && <CircularProgress size={20} />}
+            {historyQuery.error && <Alert severity="error">{getErrorMessage(historyQuery.error, 'Failed to load history')}</Alert>}
+            {!historyQuery.isLoading && !historyQuery.error && history.length === 0 && (
+              <Typography variant="body2" color="text.secondary">No changes recorded yet</Typography>
+            )}
+            <List dense disablePadding>
+              {history.map((change, idx) => (
+                <ListItem
+                  key={change._id || idx}
+                  disableGutters
+                  divider
+                  secondaryAction={
+                    <Tooltip title="Revert to previous value">
+                      <span>
+                        <IconButton edge="end" size="small" onClick={() => revert(change)} disabled={!canRevert(change)}>
+                          <UndoIcon fontSize="small" />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                  }
+                >
+                  <ListItemText
+                    primary={
+                      <>
+                        <strong>{change.field}</strong>: {formatValue(change.oldValue)} → {formatValue(change.newValue)}
+                      </>
+                    }
+                    secondary={`${formatAuthor(change.changedBy)} · ${new Date(change.changedAt).toLocaleString()}`}
+                    sx={{ pr: 4, wordBreak: 'break-word' }}
+                  />
+                </ListItem>
+              ))}
+            </List>
+          </Paper>
+        </Grid>
+      </Grid>
+    </Stack>
+  );
+};
+
+export default MovieDetail;
@@ -1,8 +1,8 @@
-import React, { useEffect, useMemo, useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import {
   Alert,
-  Autocomplete,
   Box,
   Button,
   CircularProgress,
@@ -11,7 +11,6 @@ import {
   DialogContent,
   DialogTitle,
   FormControlLabel,
-  MenuItem,
   Paper,
   Stack,
   Switch,
@@ -26,65 +25,67 @@ import {
   Chip
 } from '@mui/material';
 import SearchIcon from '@mui/icons-material/Search';
-import api from '../api/client';
-
-interface SeriesRow {
-  _id: string;
-  title: string;
-  isPremium: boolean;
-  isPublished: boolean;
-  releaseYear?: number;
-  language?: string;
-  seasons?: Array<{ seasonNumber: number; episodes: any[] }>;
-}
-
-type SeriesPayload = {
-  title: string;
-  description: string;
-  genres: string[];
-  language: string;
-  releaseYear: number;
-  poster: { vertical: string; horizontal: string };
-  maturityRating: 'U' | 'UA' | 'A';
-  isPremium: boolean;
-};
+import {
+  getErrorMessage,
+  omdbApi,
+  queryKeys,
+  seriesApi,
+  toApiError,
+  type EpisodePayload,
+  type OmdbSearchResult,
+  type Series as SeriesDoc,
+  type SeriesPayload,
+  type Taxonomy
+} from '../api';
+import { useAuth } from '../state/AuthContext';
+import BulkActionBar, { RowCheckbox, SelectAllCheckbox, useBulkActions } from '../components/BulkActionBar';
+import PublishDialog, { PublishStatusChip, getPublishStatus, type ChecklistItem } from '../components/PublishDialog';
+import ExportButton, { fetchAllPages, type ExportColumn } from '../components/ExportButton';
+import ImportWizard, { splitList, toBoolean, toNumber, type ImportConfig } from '../components/ImportWizard';
+import { episodeMissingFields } from '../components/BulkEpisodesDialog';
+import {
+  CONTENT_RULES,
+  ContentInfoFields,
+  MaturityRatingSelect,
+  PosterFields,
+  TaxonomyStatus,
+  knownGenres,
+  matchGenre,
+  matchLanguage,
+  useTaxonomy,
+  validateContent
+} from '../components/ContentMetadata';
 
-const GENRES = [
-  'Action',
-  'Comedy',
-  'Drama',
-  'Horror',
-  'Thriller',
-  'Romance',
-  'Sci-Fi',
-  'Fantasy',
-  'Documentary',
-  'Animation',
-  'Crime',
-  'Mystery',
-  'Adventure',
-  'Family',
-  'Musical',
-  'War',
-  'Western',
-  'Biography',
-  'Sports'
+type SeriesRow = SeriesDoc;
+
+const seriesChecklist = (series: SeriesRow): ChecklistItem[] => [
+  { label: 'Vertical and horizontal poster URLs present', ok: !!series.poster?.vertical && !!series.poster?.horizontal },
+  { label: 'At least one episode added', ok: (series.seasons || []).some((season) => season.episodes?.length > 0) }
 ];
 
-const LANGUAGES = [
-  'English',
-  'Hindi',
-  'Tamil',
-  'Telugu',
-  'Kannada',
-  'Malayalam',
-  'Bengali',
-  'Marathi',
-  'Gujarati',
-  'Punjabi'
+const LIST_PARAMS = { limit: 50 };
+
+const EXPORT_COLUMNS: ExportColumn<SeriesRow>[] = [
+  { header: 'ID', value: (row) => row._id },
+  { header: 'Title', value: (row) => row.title },
+  { header: 'Release year', value: (row) => row.releaseYear },
+  { header: 'Language', value: (row) => row.language },
+  { header: 'Genres', value: (row) => (row.genres || []).join('; ') },
+  { header: 'Seasons', value: (row) => row.seasons?.length ?? 0 },
+  { header: 'Episodes', value: (row) => (row.seasons || []).reduce((sum, season) => sum + season.episodes.length, 0) },
+  { header: 'Maturity', value: (row) => row.maturityRating },
+  { header: 'Premium', value: (row) => (row.isPremium ? 'yes' : 'no') },
+  { header: 'Status', value: (row) => getPublishStatus(row) },
+  { header: 'Publish at', value: (row) => row.publishAt },
+  { header: 'Updated', value: (row) => row.updatedAt }
 ];
 
-const MATURITY_RATINGS: Array<'U' | 'UA' | 'A'> = ['U', 'UA', 'A'];
+// The table shows the first page only; exports walk every page.
+const exportSeries = (onProgress: (loaded: number, total?: number) => void) =>
+  fetchAllPages(async (page, limit) => {
+    const data = await seriesApi.list({ page, limit });
+    return { rows: data.series, total: data.pagination?.total ?? data.total };
+  }, onProgress);
 
 const emptySeries = (): SeriesPayload => ({
   title: '',
@@ -97,41 +98,160 @@ const emptySeries = (): SeriesPayload => ({
   isPremium: false
 });
 
+const validateSeries = (form: SeriesPayload, taxonomy: Taxonomy) => validateContent(form, CONTENT_RULES, taxonomy);
+
+type SeriesImport = SeriesPayload & { seasons: Array<{ seasonNumber: number; episodes: EpisodePayload[] }> };
+
+const asRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+const asList = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+const toImportedEpisode = (value: unknown, index: number): EpisodePayload => {
+  const ep = asRecord(value);
+  return {
+    episodeNumber: toNumber(ep.episodeNumber, index + 1),
+    title: String(ep.title ?? ''),
+    description: String(ep.description ?? ''),
+    duration: toNumber(ep.duration),
+    cloudflareVideoId: String(ep.cloudflareVideoId ?? ''),
+    thumbnail: String(ep.thumbnail ?? '')
+  };
+};
+
+// Seasons come from a nested JSON array, or from a CSV column holding the same JSON. Anything that
+// isn't an object reads as empty, and validation then reports the missing fields.
+const parseSeasons = (value: unknown): SeriesImport['seasons'] => {
+  let list = value;
+  if (typeof value === 'string') {
+    if (!value.trim()) return [];
+    try {
+      list = JSON.parse(value);
+    } catch {
+      return [];
+    }
+  }
+  return asList(list).map((entry, i) => {
+    const season = asRecord(entry);
+    return {
+      seasonNumber: toNumber(season.seasonNumber, i + 1),
+      episodes: asList(season.episodes).map(toImportedEpisode)
+    };
+  });
+};
+
+// Built per taxonomy, since values in the file are resolved against it.
+const seriesImport = (taxonomy: Taxonomy): ImportConfig<SeriesImport> => ({
+  noun: 'series',
+  fields: [
+    { key: 'title', label: 'Title', required: true, aliases: ['name'] },
+    { key: 'description', label: 'Description', aliases: ['plot', 'synopsis'] },
+    { key: 'genres', label: 'Genres', aliases: ['genre'] },
+    { key: 'language', label: 'Language' },
+    { key: 'releaseYear', label: 'Release year', aliases: ['year', 'startYear'] },
+    { key: 'posterVertical', label: 'Poster vertical URL', aliases: ['poster', 'poster vertical'] },
+    { key: 'posterHorizontal', label: 'Poster horizontal URL', aliases: ['poster horizontal', 'backdrop'] },
+    { key: 'maturityRating', label: 'Maturity rating', aliases: ['maturity', 'certificate'] },
+    { key: 'isPremium', label: 'Premium', aliases: ['premium'] },
+    { key: 'seasons', label: 'Seasons (JSON)', aliases: ['seasons'] }
+  ],
+  toPayload: (record) => ({
+    ...emptySeries(),
+    title: String(record.title ?? '').trim(),
+    description: String(record.description ?? '').trim(),
+    genres: splitList(record.genres).map((genre) => matchGenre(genre, taxonomy)),
+    language: matchLanguage(String(record.language ?? ''), taxonomy),
+    // Left at 0 when blank so validation flags it rather than guessing the current year.
+    releaseYear: toNumber(record.releaseYear),
+    poster: { vertical: String(record.posterVertical ?? '').trim(), horizontal: String(record.posterHorizontal ?? '').trim() },
+    maturityRating: String(record.maturityRating || 'U').trim().toUpperCase() as SeriesPayload['maturityRating'],
+    isPremium: toBoolean(record.isPremium),
+    seasons: parseSeasons(record.seasons)
+  }),
+  // Same rules as the series dialog, plus the episode fields the manage page requires.
+  validate: (series) => {
+    const invalid = validateSeries(series, taxonomy);
+    if (invalid) return invalid;
+    for (const season of series.seasons) {
+      for (const ep of season.episodes) {
+        const missing = episodeMissingFields(ep);
+        if (missing.length) {
+          return {
+            message: `S${season.seasonNumber}E${ep.episodeNumber} missing: ${missing.join(', ')}`,
+            fieldErrors: {}
+          };
+        }
+      }
+    }
+    return null;
+  },
+  enrich: async (series) => {
+    const results = await omdbApi.searchSeries(series.title);
+    const match = results.find((r) => Number(r.startYear) === series.releaseYear) || results[0];
+    if (!match) return series;
+    const data = await omdbApi.getSeries(match.id);
+    return {
+      ...series,
+      imdbId: series.imdbId || match.id,
+      description: series.description || data.plot || data.description || '',
+      genres: series.genres.length ? series.genres : knownGenres(data.genres || [], taxonomy),
+      language: series.language || matchLanguage((data.language || data.languages?.[0] || '').split(',')[0], taxonomy),
+      poster: {
+        vertical: series.poster.vertical || data.posters?.vertical || data.poster || '',
+        horizontal: series.poster.horizontal || data.posters?.horizontal || data.poster || ''
+      }
+    };
+  },
+  create: async ({ seasons, ...payload }) => {
+    const { _id } = await seriesApi.create(payload);
+    try {
+      for (const season of seasons) {
+        await seriesApi.addSeason(_id, { seasonNumber: season.seasonNumber });
+        for (const ep of season.episodes) {
+          await seriesApi.createEpisode(_id, season.seasonNumber, ep);
+        }
+      }
+    } catch (err) {
+      // The series itself exists at this point, so re-importing the row would duplicate it.
+      throw new Error(`Series created, but adding episodes failed: ${getErrorMessage(err, 'unknown error')}. Finish it from Manage.`);
+    }
+  },
+  getTitle: (series) => {
+    const episodes = series.seasons.reduce((sum, season) => sum + season.episodes.length, 0);
+    return episodes ? `${series.title} (${series.seasons.length} seasons, ${episodes} episodes)` : series.title;
+  }
+});
+
 const Series: React.FC = () => {
   const navigate = useNavigate();
-  const [rows, setRows] = useState<SeriesRow[]>([]);
+  const { can } = useAuth();
+  const queryClient = useQueryClient();
+  const taxonomyState = useTaxonomy();
+  const { taxonomy } = taxonomyState;
+  const importConfig = useMemo(() => seriesImport(taxonomy), [taxonomy]);
   const [error, setError] = useState('');
-  const [loading, setLoading] = useState(false);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
   const [form, setForm] = useState<SeriesPayload>(emptySeries());
   const [editingId, setEditingId] = useState<string | null>(null);
   const [omdbSearchQuery, setOmdbSearchQuery] = useState('');
-  const [omdbSearchResults, setOmdbSearchResults] = useState<any[]>([]);
+  const [omdbSearchResults, setOmdbSearchResults] = useState<OmdbSearchResult[]>([]);
   const [omdbLoading, setOmdbLoading] = useState(false);
   const [omdbError, setOmdbError] = useState('');
   const [showOmdbResults, setShowOmdbResults] = useState(false);
+  const [publishTarget, setPublishTarget] = useState<SeriesRow | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
+  const formLocked = omdbLoading || !taxonomyState.ready;
   const dialogTitle = useMemo(() => (editingId ? 'Edit Series' : 'Create Series from OMDB'), [editingId]);
+  const seriesQuery = useQuery({
+    queryKey: queryKeys.series.list(LIST_PARAMS),
+    queryFn: () => seriesApi.list(LIST_PARAMS)
+  });
+  const rows = useMemo(() => seriesQuery.data?.series ?? [], [seriesQuery.data]);
+  const loading = seriesQuery.isFetching;
+  const loadError = seriesQuery.error ? getErrorMessage(seriesQuery.error, 'Failed to load series') : '';
 
-  const load = async () => {
-    setLoading(true);
-    setError('');
-    try {
-      const res = await api.get('/admin/series?limit=50', { headers: { 'Cache-Control': 'no-cache' } });
-      const fetched = res.data.data.series || [];
-      setRows(fetched);
-      return fetched as SeriesRow[];
-    } catch (err: any) {
-      setError(err?.response?.data?.message || 'Failed to load series');
-      return [] as SeriesRow[];
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  useEffect(() => {
-    load();
-  }, []);
+  const refreshSeries = () => queryClient.invalidateQueries({ queryKey: queryKeys.series.all });
+  const bulk = useBulkActions(rows, { getLabel: (row) => row.title, onComplete: refreshSeries });
 
   // Search OMDB for series
   const handleOmdbSearch = async (query: string) => {
@@ -144,16 +264,13 @@ const Series: React.FC = () => {
     setOmdbLoading(true);
     setOmdbError('');
     try {
-      const res = await api.get(`/admin/omdb/search`, {
-        params: { query, type: 'series' }
-      });
-      const results = res.data.data?.results || [];
+      const results = await omdbApi.searchSeries(query);
       setOmdbSearchResults(results);
       if (results.length === 0) {
         setOmdbError('No series found. Try a different title.');
       }
-    } catch (err: any) {
-      setOmdbError(err?.response?.data?.message || 'Search failed. Please try again.');
+    } catch (err) {
+      setOmdbError(getErrorMessage(err, 'Search failed. Please try again.'));
       setOmdbSearchResults([]);
     } finally {
       setOmdbLoading(false);
@@ -165,29 +282,30 @@ const Series: React.FC = () => {
     setOmdbLoading(true);
     setOmdbError('');
     try {
-      const res = await api.get(`/admin/omdb/series/${omdbId}`);
-      const data = res.data.data;
+      const data = await omdbApi.getSeries(omdbId);
+      const rating = (data.contentRating || 'U').toUpperCase() as SeriesPayload['maturityRating'];
       
       setForm({
         title: data.title || '',
         description: data.plot || data.description || '',
-        genres: data.genres?.slice(0, 5) || [],
-        language: data.language || data.languages?.[0] || 'English',
+        genres: knownGenres(data.genres || [], taxonomy),
+        language: matchLanguage((data.language || data.languages?.[0] || '').split(',')[0], taxonomy),
         releaseYear: data.startYear || new Date().getFullYear(),
         poster: {
           vertical: data.posters?.vertical || data.poster || '',
           horizontal: data.posters?.horizontal || data.poster || ''
         },
-        maturityRating: (data.contentRating || 'U').toUpperCase() as any,
-        isPremium: false
+        maturityRating: taxonomy.maturityRatings.some((option) => option.value === rating) ? rating : 'U',
+        isPremium: false,
+        imdbId: omdbId
       });
 
       setShowOmdbResults(false);
       setOmdbSearchQuery('');
       setOmdbSearchResults([]);
       setFieldErrors({});
-    } catch (err: any) {
-      setOmdbError(err?.response?.data?.message || 'Failed to fetch series details');
+    } catch (err) {
+      setOmdbError(getErrorMessage(err, 'Failed to fetch series details'));
     } finally {
       setOmdbLoading(false);
     }
@@ -200,7 +318,7 @@ const Series: React.FC = () => {
     setDialogOpen(true);
   };
 
-  const openEdit = (row: any) => {
+  const openEdit = (row: SeriesRow) => {
     setEditingId(row._id);
     setForm({
       title: row.title || '',
@@ -227,101 +345,137 @@ const Series: React.FC = () => {
   const handleSave = async () => {
     setError('');
     setFieldErrors({});
+    const invalid = validateSeries(form, taxonomy);
+    if (invalid) {
+      setFieldErrors(invalid.fieldErrors);
+      setError(invalid.message);
+      return;
+    }
     try {
-      const missing: string[] = [];
-      const nextFieldErrors: Record<string, string> = {};
-      if (!form.title) missing.push('title');
-      if (!form.description) missing.push('description');
-      if (!form.genres.length) missing.push('genres');
-      if (!form.language) missing.push('language');
-      if (!form.releaseYear) missing.push('releaseYear');
-      if (!form.poster.vertical || !form.poster.horizontal) missing.push('poster URLs');
-      if (!['U', 'UA', 'A'].includes(form.maturityRating)) missing.push('maturity rating');
-
-      if (!form.title) nextFieldErrors.title = 'Title is required';
-      if (!form.description) nextFieldErrors.description = 'Description is required';
-      if (!form.genres.length) nextFieldErrors.genres = 'Select at least one genre';
-      if (!form.language) nextFieldErrors.language = 'Language is required';
-      if (!form.releaseYear) nextFieldErrors.releaseYear = 'Release year is required';
-      if (!form.poster.vertical) nextFieldErrors.posterVertical = 'Vertical poster URL required';
-      if (!form.poster.horizontal) nextFieldErrors.posterHorizontal = 'Horizontal poster URL required';
-      if (!['U', 'UA', 'A'].includes(form.maturityRating)) nextFieldErrors.maturityRating = 'Select U, UA, or A';
-
-      if (missing.length) {
-        setFieldErrors(nextFieldErrors);
-        setError(`Missing required: ${missing.join(', ')}`);
-        return;
-      }
-
-      const sanitizedGenres = form.genres.filter((g) => GENRES.includes(g)).slice(0, 5);
-      if (sanitizedGenres.length !== form.genres.length) {
-        setFieldErrors({ ...nextFieldErrors, genres: 'Pick from the list (max 5).' });
-        setError('Please select valid genres from the list (max 5).');
-        return;
-      }
-
-      if (!LANGUAGES.includes(form.language)) {
-        setFieldErrors({ ...nextFieldErrors, language: 'Pick a valid language.' });
-        setError('Please select a valid language.');
-        return;
-      }
-
-      const payload = { ...form, genres: sanitizedGenres, language: form.language };
       if (editingId) {
-        await api.put(`/admin/series/${editingId}`, payload);
+        await seriesApi.update(editingId, form);
       } else {
-        await api.post('/admin/series', payload);
+        await seriesApi.create(form);
       }
       setDialogOpen(false);
-      await load();
-    } catch (err: any) {
-      setError(err?.response?.data?.message || 'Save failed');
+      await refreshSeries();
+    } catch (err) {
+      const apiError = toApiError(err, 'Save failed');
+      setFieldErrors(apiError.fieldErrors);
+      setError(apiError.message);
     }
   };
 
   const handleDelete = async (id: string) => {
     if (!confirm('Delete this series?')) return;
     try {
-      await api.delete(`/admin/series/${id}`);
-      await load();
-    } catch (err: any) {
-      setError(err?.response?.data?.message || 'Delete failed');
+      await seriesApi.remove(id);
+      await refreshSeries();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Delete failed'));
+    }
+  };
+
+  const handlePublish = async (publishAt: string | null) => {
+    if (!publishTarget) return;
+    await seriesApi.publish(publishTarget._id, publishAt);
+    await refreshSeries();
+  };
+
+  const handleUnpublish = async (id: string) => {
+    if (!confirm('Unpublish this series? It will be hidden from viewers.')) return;
+    try {
+      await seriesApi.unpublish(id);
+      await refreshSeries();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Unpublish failed'));
     }
   };
 
+  const bulkPublish = () => bulk.run(async (row) => {
+    const failing = seriesChecklist(row).filter((item) => !item.ok);
+    if (failing.length) throw new Error(`Checklist incomplete: ${failing.map((item) => item.label).join(', ')}`);
+    await seriesApi.publish(row._id, null);
+  });
+
+  const bulkUnpublish = () => bulk.run(async (row) => {
+    await seriesApi.unpublish(row._id);
+  });
+
+  const bulkSetPremium = (isPremium: boolean) => bulk.run(async (row) => {
+    await seriesApi.update(row._id, { isPremium });
+  });
+
+  const bulkSetMaturity = (maturityRating: SeriesPayload['maturityRating']) => bulk.run(async (row) => {
+    await seriesApi.update(row._id, { maturityRating });
+  });
+
+  const bulkDelete = () => {
+    if (!confirm(`Delete ${bulk.selected.size} series? All their seasons and episodes will be removed.`)) return;
+    bulk.run(async (row) => {
+      await seriesApi.remove(row._id);
+    });
+  };
+
   return (
     <Stack spacing={2}>
       <Stack direction="row" justifyContent="space-between" alignItems="center">
         <Typography variant="h6">Series</Typography>
         <Stack direction="row" spacing={1}>
-          <Button variant="outlined" onClick={load} disabled={loading}>{loading ? 'Loading…' : 'Refresh'}</Button>
-          <Button variant="contained" onClick={openCreate}>Add Series</Button>
+          <ExportButton filename="series" columns={EXPORT_COLUMNS} loadRows={exportSeries} onError={setError} />
+          <Button variant="outlined" onClick={() => seriesQuery.refetch()} disabled={loading}>{loading ? 'Loading…' : 'Refresh'}</Button>
+          <Button variant="outlined" onClick={() => setImportOpen(true)} disabled={!can('content:edit') || !taxonomyState.ready}>Import</Button>
+          <Button variant="contained" onClick={openCreate} disabled={!can('content:edit')}>Add Series</Button>
         </Stack>
       </Stack>
-      {error && <Alert severity="error">{error}</Alert>}
+      {(error || loadError) && <Alert severity="error">{error || loadError}</Alert>}
+      <BulkActionBar bulk={bulk}>
+        <Button size="small" onClick={bulkPublish} disabled={bulk.running || !can('content:publish')}>Publish</Button>
+        <Button size="small" onClick={bulkUnpublish} disabled={bulk.running || !can('content:publish')}>Unpublish</Button>
+        <Button size="small" onClick={() => bulkSetPremium(true)} disabled={bulk.running || !can('content:edit')}>Set Premium</Button>
+        <Button size="small" onClick={() => bulkSetPremium(false)} disabled={bulk.running || !can('content:edit')}>Remove Premium</Button>
+        <MaturityRatingSelect
+          taxonomy={taxonomy}
+          size="small"
+          label="Maturity"
+          value=""
+          onChange={bulkSetMaturity}
+          disabled={bulk.running || !can('content:edit')}
+          sx={{ minWidth: 120 }}
+        />
+        <Button size="small" color="error" onClick={bulkDelete} disabled={bulk.running || !can('content:delete')}>Delete</Button>
+      </BulkActionBar>
       <Paper>
         <Table size="small">
           <TableHead>
             <TableRow>
+              <TableCell padding="checkbox"><SelectAllCheckbox bulk={bulk} /></TableCell>
               <TableCell>Title</TableCell>
               <TableCell>Year</TableCell>
               <TableCell>Premium</TableCell>
               <TableCell>Status</TableCell>
-              <TableCell width={180}>Actions</TableCell>
+              <TableCell width={400}>Actions</TableCell>
             </TableRow>
           </TableHead>
           <TableBody>
             {rows.map((row) => (
-              <TableRow key={row._id} hover>
+              <TableRow key={row._id} hover selected={bulk.selected.has(row._id)}>
+                <TableCell padding="checkbox"><RowCheckbox bulk={bulk} id={row._id} /></TableCell>
                 <TableCell>{row.title}</TableCell>
                 <TableCell>{row.releaseYear || '-'}</TableCell>
                 <TableCell>{row.isPremium ? 'Yes' : 'No'}</TableCell>
-                <TableCell>{row.isPublished ? 'Published' : 'Draft'}</TableCell>
+                <TableCell><PublishStatusChip item={row} /></TableCell>
                 <TableCell>
                   <Stack direction="row" spacing={1}>
-                    <Button size="small" onClick={() => openManage(row)}>Manage</Button>
-                    <Button size="small" onClick={() => openEdit(row)}>Edit</Button>
-                    <Button size="small" color="error" onClick={() => handleDelete(row._id)}>Delete</Button>
+                    <Button size="small" onClick={() => openManage(row)} disabled={!can('content:edit')}>Manage</Button>
+                    <Button size="small" onClick={() => navigate(`/series/${row._id}/analytics`)} disabled={!can('analytics:view')}>Analytics</Button>
+                    <Button size="small" onClick={() => openEdit(row)} disabled={!can('content:edit')}>Edit</Button>
+                    {['LIVE', 'SCHEDULED'].includes(getPublishStatus(row)) ? (
+                      <Button size="small" onClick={() => handleUnpublish(row._id)} disabled={!can('content:publish')}>Unpublish</Button>
+                    ) : (
+                      <Button size="small" onClick={() => setPublishTarget(row)} disabled={!can('content:publish')}>Publish</Button>
+                    )}
+                    <Button size="small" color="error" onClick={() => handleDelete(row._id)} disabled={!can('content:delete')}>Delete</Button>
                   </Stack>
                 </TableCell>
               </TableRow>
@@ -330,9 +484,21 @@ const Series: React.FC = () => {
         </Table>
       </Paper>
 
+      <PublishDialog
+        open={!!publishTarget}
+        title={publishTarget?.title || ''}
+        checklist={publishTarget ? seriesChecklist(publishTarget) : []}
+        initialPublishAt={publishTarget?.publishAt}
+        onClose={() => setPublishTarget(null)}
+        onPublish={handlePublish}
+      />
+
+      <ImportWizard open={importOpen} config={importConfig} onClose={() => setImportOpen(false)} onImported={refreshSeries} />
+
       <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="md" fullWidth>
         <DialogTitle>{dialogTitle}</DialogTitle>
         <DialogContent sx={{ display: 'grid', gap: 2, pt: 2 }}>
+          <TaxonomyStatus state={taxonomyState} />
           {/* OMDB Search Section */}
           {!editingId && (
             <Box sx={{ 
@@ -375,7 +541,7 @@ const Series: React.FC = () => {
                     borderRadius: 1,
                     backgroundColor: '#fff'
                   }}>
-                    {omdbSearchResults.map((result: any) => (
+                    {omdbSearchResults.map((result) => (
                       <Paper
                         key={result.id}
                         sx={{
@@ -431,108 +597,33 @@ const Series: React.FC = () => {
           )}
 
           {/* Form Fields - Auto-filled from OMDB */}
-          <TextField 
-            label="Title" 
-            value={form.title} 
-            onChange={(e) => updateField('title', e.target.value)} 
-            required 
-            fullWidth 
-            error={!!fieldErrors.title} 
-            helperText={fieldErrors.title}
-            disabled={omdbLoading}
-          />
-          
-          <TextField 
-            label="Description" 
-            value={form.description} 
-            onChange={(e) => updateField('description', e.target.value)} 
-            multiline 
-            minRows={2} 
-            fullWidth 
-            error={!!fieldErrors.description} 
-            helperText={fieldErrors.description}
-            disabled={omdbLoading}
-          />
-          
-          <Autocomplete
-            multiple
-            options={GENRES}
-            value={form.genres}
-            onChange={(_, value) => updateField('genres', value.slice(0, 5))}
-            renderInput={(params) => (
-              <TextField
-                {...params}
-                label="Genres"
-                placeholder="Select up to 5"
-                error={!!fieldErrors.genres}
-                helperText={fieldErrors.genres}
-                disabled={omdbLoading}
-              />
-            )}
-          />
-          
-          <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit,minmax(180px,1fr))', gap: 2 }}>
-            <TextField 
-              select 
-              label="Language" 
-              value={form.language} 
-              onChange={(e) => updateField('language', e.target.value)} 
-              error={!!fieldErrors.language} 
-              helperText={fieldErrors.language}
-              disabled={omdbLoading}
-            >
-              {LANGUAGES.map((lang) => (
-                <MenuItem key={lang} value={lang}>{lang}</MenuItem>
-              ))}
-            </TextField>
-            
-            <TextField 
-              label="Release Year" 
-              type="number" 
-              value={form.releaseYear} 
-              onChange={(e) => updateField('releaseYear', Number(e.target.value))} 
-              error={!!fieldErrors.releaseYear} 
-              helperText={fieldErrors.releaseYear}
-              disabled={omdbLoading}
-            />
-            
-            <TextField 
-              select 
-              label="Maturity Rating" 
-              value={form.maturityRating} 
-              onChange={(e) => updateField('maturityRating', e.target.value as any)} 
-              error={!!fieldErrors.maturityRating} 
+          <ContentInfoFields
+            form={form}
+            onChange={(changes) => setForm((prev) => ({ ...prev, ...changes }))}
+            taxonomy={taxonomy}
+            fieldErrors={fieldErrors}
+            disabled={formLocked}
+          >
+            <MaturityRatingSelect
+              taxonomy={taxonomy}
+              value={form.maturityRating}
+              onChange={(rating) => updateField('maturityRating', rating)}
+              error={!!fieldErrors.maturityRating}
               helperText={fieldErrors.maturityRating}
-              disabled={omdbLoading}
-            >
-              {MATURITY_RATINGS.map((rate) => (
-                <MenuItem key={rate} value={rate}>{rate}</MenuItem>
-              ))}
-            </TextField>
-          </Box>
-          
-          <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit,minmax(220px,1fr))', gap: 2 }}>
-            <TextField 
-              label="Poster Vertical URL" 
-              value={form.poster.vertical} 
-              onChange={(e) => updateField('poster', { ...form.poster, vertical: e.target.value })} 
-              error={!!fieldErrors.posterVertical} 
-              helperText={fieldErrors.posterVertical}
-              disabled={omdbLoading}
-            />
-            
-            <TextField 
-              label="Poster Horizontal URL" 
-              value={form.poster.horizontal} 
-              onChange={(e) => updateField('poster', { ...form.poster, horizontal: e.target.value })} 
-              error={!!fieldErrors.posterHorizontal} 
-              helperText={fieldErrors.posterHorizontal}
-              disabled={omdbLoading}
+              disabled={formLocked}
             />
-          </Box>
+          </ContentInfoFields>
+          
+          <PosterFields
+            poster={form.poster}
+            onChange={(side, url) => setForm((prev) => ({ ...prev, poster: { ...prev.poster, [side]: url } }))}
+            folder="series"
+            fieldErrors={fieldErrors}
+            disabled={formLocked}
+          />
           
           <FormControlLabel 
-            control={<Switch checked={form.isPremium} onChange={(e) => updateField('isPremium', e.target.checked)} disabled={omdbLoading} />} 
+            control={<Switch checked={form.isPremium} onChange={(e) => updateField('isPremium', e.target.checked)} disabled={formLocked} />} 
             label="Premium" 
           />
         </DialogContent>
@@ -541,7 +632,7 @@ const Series: React.FC = () => {
           <Button 
             variant="contained" 
             onClick={handleSave}
-            disabled={omdbLoading}
+            disabled={formLocked}
           >
             {editingId ? 'Update' : 'Create'}
           </Button>
@@ -0,0 +1,267 @@
+import React from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import {
+  Alert,
+  Box,
+  Chip,
+  CircularProgress,
+  Grid,
+  IconButton,
+  Paper,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography
+} from '@mui/material';
+import ArrowBackIcon from '@mui/icons-material/ArrowBack';
+import {
+  Area,
+  AreaChart,
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import { analyticsApi, getErrorMessage, queryKeys, type DropOffPoint, type SeasonAnalytics } from '../api';
+import type { ExportColumn } from '../components/ExportButton';
+import { ChartHeader, StatCard, countColumns } from '../components/AnalyticsWidgets';
+import DateRangeControls, { useAnalyticsRange } from '../components/DateRangeControls';
+import { formatPercent } from '../utils/format';
+
+type TitleKind = 'movie' | 'series';
+
+const formatDuration = (seconds: number) => {
+  const minutes = Math.round(seconds / 60);
+  return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes} min`;
+};
+
+interface EpisodeRow {
+  season: number;
+  episode: number;
+  title: string;
+  views: number;
+  uniqueViewers: number;
+  completionRate: number;
+  averageWatchTime: number;
+}
+
+const episodeRows = (seasons: SeasonAnalytics[]): EpisodeRow[] =>
+  [...seasons]
+    .sort((a, b) => a.seasonNumber - b.seasonNumber)
+    .flatMap((season) =>
+      [...season.episodes]
+        .sort((a, b) => a.episodeNumber - b.episodeNumber)
+        .map((ep) => ({
+          season: season.seasonNumber,
+          episode: ep.episodeNumber,
+          title: ep.title,
+          views: ep.views,
+          uniqueViewers: ep.uniqueViewers,
+          completionRate: ep.completionRate,
+          averageWatchTime: ep.averageWatchTime
+        }))
+    );
+
+const DROP_OFF_COLUMNS: ExportColumn<DropOffPoint>[] = [
+  { header: 'Position (%)', value: (row) => row.position },
+  { header: 'Still watching (%)', value: (row) => Math.round(row.retention * 1000) / 10 }
+];
+
+const EPISODE_COLUMNS: ExportColumn<EpisodeRow>[] = [
+  { header: 'Season', value: (row) => row.season },
+  { header: 'Episode', value: (row) => row.episode },
+  { header: 'Title', value: (row) => row.title },
+  { header: 'Views', value: (row) => row.views },
+  { header: 'Unique viewers', value: (row) => row.uniqueViewers },
+  { header: 'Completion rate', value: (row) => row.completionRate },
+  { header: 'Avg watch time (s)', value: (row) => row.averageWatchTime }
+];
+
+// Analytics for a single movie or series. The range controls share their URL params with the Dashboard.
+const TitleAnalytics: React.FC<{ kind: TitleKind }> = ({ kind }) => {
+  const navigate = useNavigate();
+  const params = useParams();
+  const id = (kind === 'movie' ? params.movieId : params.seriesId) || '';
+  const rangeState = useAnalyticsRange();
+  const { range, previous, granularity, compare, label } = rangeState;
+  const load = kind === 'movie' ? analyticsApi.movie : analyticsApi.series;
+
+  const seriesParams = { ...range, granularity };
+  const prevParams = { ...previous, granularity };
+  const analyticsQuery = useQuery({
+    queryKey: queryKeys.analytics.title(kind, id, seriesParams),
+    queryFn: () => load(id, seriesParams),
+    enabled: !!id
+  });
+  const prevQuery = useQuery({
+    queryKey: queryKeys.analytics.title(kind, id, prevParams),
+    queryFn: () => load(id, prevParams),
+    enabled: !!id && compare
+  });
+
+  const backTo = kind === 'movie' ? '/content' : '/series';
+  const data = analyticsQuery.data;
+  const prev = compare ? prevQuery.data : undefined;
+
+  if (analyticsQuery.isLoading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '80vh' }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (!data) {
+    return (
+      <Stack spacing={2}>
+        <IconButton onClick={() => navigate(backTo)} size="small" sx={{ alignSelf: 'flex-start' }}>
+          <ArrowBackIcon />
+        </IconButton>
+        <Alert severity="error">{analyticsQuery.error ? getErrorMessage(analyticsQuery.error, 'Failed to load analytics') : 'No analytics for this title'}</Alert>
+      </Stack>
+    );
+  }
+
+  const suffix = `${data.title}-${range.from}-to-${range.to}`.replace(/[^\w-]+/g, '-').toLowerCase();
+  const episodes = episodeRows(data.seasons);
+
+  return (
+    <Stack spacing={2}>
+      <Stack direction="row" alignItems="center" spacing={2}>
+        <IconButton onClick={() => navigate(backTo)} size="small">
+          <ArrowBackIcon />
+        </IconButton>
+        <Typography variant="h5" sx={{ flex: 1 }}>{data.title}</Typography>
+        <Chip size="small" label={kind === 'movie' ? 'Movie' : 'Series'} />
+        {data.runtime ? <Chip size="small" variant="outlined" label={formatDuration(data.runtime)} /> : null}
+      </Stack>
+      <DateRangeControls state={rangeState} />
+      {prevQuery.error && <Alert severity="warning">{getErrorMessage(prevQuery.error, 'Failed to load the previous period')}</Alert>}
+
+      <Grid container spacing={2}>
+        <Grid item xs={12} sm={6} md={3}><StatCard title="Views" value={data.views} previous={prev?.views} /></Grid>
+        <Grid item xs={12} sm={6} md={3}><StatCard title="Unique viewers" value={data.uniqueViewers} previous={prev?.uniqueViewers} /></Grid>
+        <Grid item xs={12} sm={6} md={3}>
+          <StatCard title="Completion rate" value={data.completionRate} previous={prev?.completionRate} format={formatPercent} />
+        </Grid>
+        <Grid item xs={12} sm={6} md={3}>
+          <StatCard title="Avg watch time" value={data.averageWatchTime} previous={prev?.averageWatchTime} format={formatDuration} />
+        </Grid>
+      </Grid>
+
+      <Grid container spacing={2}>
+        <Grid item xs={12} md={6}>
+          <Paper sx={{ p: 2, height: 320 }}>
+            <ChartHeader title={`Views (${label})`} filename={`views-${suffix}`} columns={countColumns('Date', 'Views')} rows={data.viewsOverTime} />
+            <ResponsiveContainer width="100%" height="90%">
+              <LineChart data={data.viewsOverTime}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="_id" tick={{ fontSize: 12 }} />
+                <YAxis allowDecimals={false} />
+                <Tooltip />
+                <Line type="monotone" dataKey="count" name="Views" stroke="#0f62fe" strokeWidth={2} dot={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </Paper>
+        </Grid>
+        <Grid item xs={12} md={6}>
+          <Paper sx={{ p: 2, height: 320 }}>
+            <ChartHeader title="Drop-off" filename={`drop-off-${suffix}`} columns={DROP_OFF_COLUMNS} rows={data.dropOff} />
+            {data.dropOff.length ? (
+              <ResponsiveContainer width="100%" height="90%">
+                <AreaChart data={data.dropOff}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="position" type="number" domain={[0, 100]} unit="%" tick={{ fontSize: 12 }} />
+                  <YAxis domain={[0, 1]} tickFormatter={(v: number) => `${Math.round(v * 100)}%`} />
+                  <Tooltip
+                    labelFormatter={(position) =>
+                      data.runtime ? `${position}% · ${formatDuration((Number(position) / 100) * data.runtime)}` : `${position}%`
+                    }
+                    formatter={(value) => [formatPercent(Number(value)), 'Still watching']}
+                  />
+                  <Area type="monotone" dataKey="retention" stroke="#722ed1" fill="#722ed1" fillOpacity={0.2} />
+                </AreaChart>
+              </ResponsiveContainer>
+            ) : (
+              <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>No playback data in this period</Typography>
+            )}
+          </Paper>
+        </Grid>
+      </Grid>
+
+      {kind === 'series' && (
+        <Paper sx={{ p: 2 }}>
+          <ChartHeader title="Episodes" filename={`episodes-${suffix}`} columns={EPISODE_COLUMNS} rows={episodes} />
+          {episodes.length > 0 && (
+            <Box sx={{ height: 240, mt: 1 }}>
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={episodes.map((ep) => ({ ...ep, code: `S${ep.season}E${ep.episode}` }))}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="code" tick={{ fontSize: 12 }} />
+                  <YAxis allowDecimals={false} />
+                  <Tooltip />
+                  <Bar dataKey="views" name="Views" fill="#36cfc9" radius={[6, 6, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </Box>
+          )}
+          <Table size="small" sx={{ mt: 1 }}>
+            <TableHead>
+              <TableRow>
+                <TableCell>Episode</TableCell>
+                <TableCell align="right">Views</TableCell>
+                <TableCell align="right">Unique viewers</TableCell>
+                <TableCell align="right">Completion</TableCell>
+                <TableCell align="right">Avg watch time</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {[...data.seasons]
+                .sort((a, b) => a.seasonNumber - b.seasonNumber)
+                .map((season) => (
+                  <React.Fragment key={season.seasonNumber}>
+                    <TableRow sx={{ bgcolor: 'action.hover' }}>
+                      <TableCell sx={{ fontWeight: 600 }}>Season {season.seasonNumber}</TableCell>
+                      <TableCell align="right">{season.views}</TableCell>
+                      <TableCell align="right">{season.uniqueViewers}</TableCell>
+                      <TableCell align="right">{formatPercent(season.completionRate)}</TableCell>
+                      <TableCell align="right">{formatDuration(season.averageWatchTime)}</TableCell>
+                    </TableRow>
+                    {episodes
+                      .filter((ep) => ep.season === season.seasonNumber)
+                      .map((ep) => (
+                        <TableRow key={`${ep.season}-${ep.episode}`}>
+                          <TableCell sx={{ pl: 4 }}>E{ep.episode} · {ep.title || 'Untitled'}</TableCell>
+                          <TableCell align="right">{ep.views}</TableCell>
+                          <TableCell align="right">{ep.uniqueViewers}</TableCell>
+                          <TableCell align="right">{formatPercent(ep.completionRate)}</TableCell>
+                          <TableCell align="right">{formatDuration(ep.averageWatchTime)}</TableCell>
+                        </TableRow>
+                      ))}
+                  </React.Fragment>
+                ))}
+              {!data.seasons.length && (
+                <TableRow>
+                  <TableCell colSpan={5} align="center">
+                    <Typography variant="body2" color="text.secondary">No season data in this period</Typography>
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </Paper>
+      )}
+    </Stack>
+  );
+};
+
+export default TitleAnalytics;
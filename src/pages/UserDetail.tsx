@@ -0,0 +1,313 @@
+import React, { useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Grid,
+  IconButton,
+  LinearProgress,
+  List,
+  ListItem,
+  ListItemText,
+  Paper,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography
+} from '@mui/material';
+import ArrowBackIcon from '@mui/icons-material/ArrowBack';
+import {
+  getErrorMessage,
+  queryKeys,
+  usersApi,
+  type SubscriptionEvent,
+  type SubscriptionUpdate,
+  type WatchHistoryItem
+} from '../api';
+import { useAuth } from '../state/AuthContext';
+import { formatAuthor } from '../utils/format';
+import SubscriptionDialog from '../components/SubscriptionDialog';
+
+const formatDate = (value?: string | null) => (value ? new Date(value).toLocaleString() : '—');
+
+const formatMinutes = (seconds: number) => `${Math.round(seconds / 60)} min`;
+
+const EVENT_COLORS: Record<string, 'default' | 'success' | 'info' | 'warning' | 'error'> = {
+  CREATED: 'info',
+  UPGRADED: 'success',
+  RENEWED: 'success',
+  DOWNGRADED: 'warning',
+  CANCELLED: 'error',
+  EXPIRED: 'default'
+};
+
+const describeEvent = (event: SubscriptionEvent) => {
+  if (event.previousPlan && event.plan && event.previousPlan !== event.plan) return `${event.previousPlan} → ${event.plan}`;
+  return event.plan || '';
+};
+
+const watchTitle = (item: WatchHistoryItem) => {
+  if (item.contentType !== 'EPISODE') return item.title;
+  const code = item.seasonNumber != null && item.episodeNumber != null ? ` S${item.seasonNumber}E${item.episodeNumber}` : '';
+  return `${item.seriesTitle || 'Series'}${code} · ${item.title}`;
+};
+
+const Section: React.FC<{ title: string; children: React.ReactNode; loading?: boolean; error?: unknown; fallback: string }> = ({
+  title,
+  children,
+  loading,
+  error,
+  fallback
+}) => (
+  <Paper sx={{ p: 2, height: '100%' }}>
+    <Typography variant="h6" sx={{ mb: 1 }}>{title}</Typography>
+    {loading && <CircularProgress size={20} />}
+    {!!error && <Alert severity="error">{getErrorMessage(error, fallback)}</Alert>}
+    {!loading && !error && children}
+  </Paper>
+);
+
+const UserDetail: React.FC = () => {
+  const { userId = '' } = useParams<{ userId: string }>();
+  const navigate = useNavigate();
+  const { can } = useAuth();
+  const queryClient = useQueryClient();
+  const [note, setNote] = useState('');
+  const [error, setError] = useState('');
+  const [editingSubscription, setEditingSubscription] = useState(false);
+
+  const userQuery = useQuery({ queryKey: queryKeys.users.detail(userId), queryFn: () => usersApi.get(userId) });
+  const subscriptionQuery = useQuery({
+    queryKey: queryKeys.users.subscriptionHistory(userId),
+    queryFn: () => usersApi.subscriptionHistory(userId)
+  });
+  const watchQuery = useQuery({ queryKey: queryKeys.users.watchHistory(userId), queryFn: () => usersApi.watchHistory(userId) });
+  const sessionsQuery = useQuery({ queryKey: queryKeys.users.sessions(userId), queryFn: () => usersApi.sessions(userId) });
+  const notesQuery = useQuery({ queryKey: queryKeys.users.notes(userId), queryFn: () => usersApi.notes(userId) });
+
+  const revokeMutation = useMutation({
+    mutationFn: (sessionId: string) => usersApi.revokeSession(userId, sessionId),
+    onError: (err) => setError(getErrorMessage(err, 'Failed to revoke session')),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.users.sessions(userId) })
+  });
+
+  const noteMutation = useMutation({
+    mutationFn: (body: string) => usersApi.addNote(userId, body),
+    onSuccess: () => setNote(''),
+    onError: (err) => setError(getErrorMessage(err, 'Failed to save note')),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.users.notes(userId) })
+  });
+
+  // The change also lands in the users table and this user's subscription history.
+  const saveSubscription = async (update: SubscriptionUpdate) => {
+    await usersApi.updateSubscription(userId, update);
+    await queryClient.invalidateQueries({ queryKey: queryKeys.users.all });
+  };
+
+  const revokeSession = (sessionId: string, device: string) => {
+    if (!confirm(`Sign out ${device}? The user will need to log in again on that device.`)) return;
+    setError('');
+    revokeMutation.mutate(sessionId);
+  };
+
+  const addNote = () => {
+    if (!note.trim()) return;
+    setError('');
+    noteMutation.mutate(note.trim());
+  };
+
+  const user = userQuery.data;
+
+  if (userQuery.isLoading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '80vh' }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (!user) {
+    return (
+      <Stack spacing={2}>
+        <Button startIcon={<ArrowBackIcon />} onClick={() => navigate('/users')} sx={{ alignSelf: 'flex-start' }}>
+          Back to Users
+        </Button>
+        <Alert severity="error">{userQuery.error ? getErrorMessage(userQuery.error, 'Failed to load user') : 'User not found'}</Alert>
+      </Stack>
+    );
+  }
+
+  const subscriptionEvents = [...(subscriptionQuery.data || [])].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  const notes = [...(notesQuery.data || [])].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  return (
+    <Stack spacing={2}>
+      <Stack direction="row" alignItems="center" spacing={2}>
+        <IconButton onClick={() => navigate('/users')} size="small">
+          <ArrowBackIcon />
+        </IconButton>
+        <Typography variant="h5" sx={{ flex: 1 }}>{user.name || user.email}</Typography>
+        <Chip size="small" label={user.role} />
+        {user.isBlocked && <Chip size="small" color="error" label="Blocked" />}
+        <Button variant="outlined" onClick={() => setEditingSubscription(true)} disabled={!can('users:edit')}>
+          Edit subscription
+        </Button>
+      </Stack>
+
+      {error && <Alert severity="error">{error}</Alert>}
+
+      <Grid container spacing={2}>
+        <Grid item xs={12} md={5}>
+          <Paper sx={{ p: 2, height: '100%' }}>
+            <Typography variant="h6" sx={{ mb: 1 }}>Profile</Typography>
+            <Table size="small">
+              <TableBody>
+                <TableRow><TableCell>Email</TableCell><TableCell>{user.email}</TableCell></TableRow>
+                <TableRow><TableCell>Name</TableCell><TableCell>{user.name || '—'}</TableCell></TableRow>
+                <TableRow><TableCell>Phone</TableCell><TableCell>{user.phone || '—'}</TableCell></TableRow>
+                <TableRow><TableCell>Country</TableCell><TableCell>{user.country || '—'}</TableCell></TableRow>
+                <TableRow><TableCell>Plan</TableCell><TableCell>{user.subscription.plan} · {user.subscription.status}{user.subscription.complimentary && ' · complimentary'}</TableCell></TableRow>
+                <TableRow><TableCell>Renews / ends</TableCell><TableCell>{formatDate(user.subscription.endDate)}</TableCell></TableRow>
+                <TableRow><TableCell>Joined</TableCell><TableCell>{formatDate(user.createdAt)}</TableCell></TableRow>
+                <TableRow><TableCell>Last login</TableCell><TableCell>{formatDate(user.lastLoginAt)}</TableCell></TableRow>
+              </TableBody>
+            </Table>
+          </Paper>
+        </Grid>
+
+        <Grid item xs={12} md={7}>
+          <Section title="Subscription history" loading={subscriptionQuery.isLoading} error={subscriptionQuery.error} fallback="Failed to load subscription history">
+            {subscriptionEvents.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">No subscription changes yet</Typography>
+            ) : (
+              <List dense disablePadding>
+                {subscriptionEvents.map((event, idx) => (
+                  <ListItem key={event._id || idx} disableGutters divider>
+                    <Chip size="small" label={event.event} color={EVENT_COLORS[event.event] || 'default'} sx={{ mr: 2, minWidth: 100 }} />
+                    <ListItemText
+                      primary={[describeEvent(event), event.amount != null && `${event.amount} ${event.currency || ''}`.trim()].filter(Boolean).join(' · ')}
+                      secondary={[formatDate(event.createdAt), event.note].filter(Boolean).join(' · ')}
+                    />
+                  </ListItem>
+                ))}
+              </List>
+            )}
+          </Section>
+        </Grid>
+
+        <Grid item xs={12} md={7}>
+          <Section title="Recent watch history" loading={watchQuery.isLoading} error={watchQuery.error} fallback="Failed to load watch history">
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Title</TableCell>
+                  <TableCell width={180}>Progress</TableCell>
+                  <TableCell>Last watched</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {(watchQuery.data || []).map((item, idx) => {
+                  const percent = item.completed ? 100 : item.duration ? Math.min(100, (item.progress / item.duration) * 100) : 0;
+                  return (
+                    <TableRow key={item._id || idx}>
+                      <TableCell>{watchTitle(item)}</TableCell>
+                      <TableCell>
+                        <LinearProgress variant="determinate" value={percent} />
+                        <Typography variant="caption" color="text.secondary">
+                          {item.completed ? 'Finished' : `${formatMinutes(item.progress)} of ${formatMinutes(item.duration)}`}
+                        </Typography>
+                      </TableCell>
+                      <TableCell>{formatDate(item.lastWatchedAt)}</TableCell>
+                    </TableRow>
+                  );
+                })}
+                {!watchQuery.data?.length && (
+                  <TableRow>
+                    <TableCell colSpan={3} align="center">
+                      <Typography variant="body2" color="text.secondary">Nothing watched yet</Typography>
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </Section>
+        </Grid>
+
+        <Grid item xs={12} md={5}>
+          <Section title="Active sessions" loading={sessionsQuery.isLoading} error={sessionsQuery.error} fallback="Failed to load sessions">
+            <List dense disablePadding>
+              {(sessionsQuery.data || []).map((session) => (
+                <ListItem
+                  key={session._id}
+                  disableGutters
+                  divider
+                  secondaryAction={
+                    <Button
+                      size="small"
+                      color="error"
+                      onClick={() => revokeSession(session._id, session.device)}
+                      disabled={!can('users:edit') || revokeMutation.isPending}
+                    >
+                      Revoke
+                    </Button>
+                  }
+                >
+                  <ListItemText
+                    primary={[session.device, session.platform, session.browser].filter(Boolean).join(' · ')}
+                    secondary={`${[session.ip, session.location].filter(Boolean).join(' · ') || 'Unknown location'} · last active ${formatDate(session.lastActiveAt)}`}
+                    sx={{ pr: 8 }}
+                  />
+                </ListItem>
+              ))}
+            </List>
+            {!sessionsQuery.data?.length && <Typography variant="body2" color="text.secondary">No active sessions</Typography>}
+          </Section>
+        </Grid>
+
+        <Grid item xs={12}>
+          <Section title="Support notes" loading={notesQuery.isLoading} error={notesQuery.error} fallback="Failed to load notes">
+            <Stack spacing={1}>
+              <TextField
+                label="Add a note"
+                placeholder="Visible to admin staff only"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                multiline
+                minRows={2}
+                disabled={!can('users:edit') || noteMutation.isPending}
+              />
+              <Box>
+                <Button variant="contained" size="small" onClick={addNote} disabled={!can('users:edit') || !note.trim() || noteMutation.isPending}>
+                  {noteMutation.isPending ? 'Saving…' : 'Add note'}
+                </Button>
+              </Box>
+              <List dense disablePadding>
+                {notes.map((item, idx) => (
+                  <ListItem key={item._id || idx} disableGutters divider>
+                    <ListItemText
+                      primary={item.body}
+                      secondary={`${formatAuthor(item.author)} · ${formatDate(item.createdAt)}`}
+                      primaryTypographyProps={{ sx: { whiteSpace: 'pre-wrap' } }}
+                    />
+                  </ListItem>
+                ))}
+              </List>
+            </Stack>
+          </Section>
+        </Grid>
+      </Grid>
+
+      <SubscriptionDialog user={editingSubscription ? user : null} onClose={() => setEditingSubscription(false)} onSave={saveSubscription} />
+    </Stack>
+  );
+};
+
+export default UserDetail;
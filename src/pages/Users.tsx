@@ -1,102 +1,321 @@
-import React, { useEffect, useState } from 'react';
-import { Alert, Button, Paper, Stack, Table, TableBody, TableCell, TableHead, TableRow, Typography } from '@mui/material';
-import api from '../api/client';
-
-interface UserRow {
-  _id: string;
-  email: string;
-  role: string;
-  isBlocked?: boolean;
-  subscription: { plan: string; status: string };
-}
+import React, { useMemo, useState } from 'react';
+import { Link as RouterLink } from 'react-router-dom';
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  Alert,
+  Button,
+  Link,
+  MenuItem,
+  Paper,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TablePagination,
+  TableRow,
+  TableSortLabel,
+  TextField,
+  Typography
+} from '@mui/material';
+import { getErrorMessage, patchQueries, queryKeys, usersApi, type AdminUser, type SubscriptionUpdate, type UserList } from '../api';
+import { useAuth } from '../state/AuthContext';
+import { ROLE_PERMISSIONS } from '../state/permissions';
+import BulkActionBar, { RowCheckbox, SelectAllCheckbox, useBulkActions } from '../components/BulkActionBar';
+import SubscriptionDialog, { PLANS, SUBSCRIPTION_STATUSES } from '../components/SubscriptionDialog';
+import ExportButton, { fetchAllPages, type ExportColumn } from '../components/ExportButton';
+import { formatSort, parseSort, useDebouncedInput, useQueryParams, type Sort, type SortOrder } from '../routes/useQueryParams';
+
+type UserRow = AdminUser;
+
+type SortField = 'createdAt' | 'lastActiveAt';
+
+const SORT_FIELDS: SortField[] = ['createdAt', 'lastActiveAt'];
+const DEFAULT_SORT: Sort<SortField> = { field: 'createdAt', order: 'desc' };
+const PAGE_SIZES = [10, 25, 50, 100];
+const DEFAULT_LIMIT = 25;
+// Customers sign up as USER; the rest are staff roles.
+const ROLES = ['USER', ...Object.keys(ROLE_PERMISSIONS)];
+const FILTER_KEYS = ['role', 'plan', 'status', 'blocked'] as const;
+
+const EXPORT_COLUMNS: ExportColumn<UserRow>[] = [
+  { header: 'ID', value: (row) => row._id },
+  { header: 'Email', value: (row) => row.email },
+  { header: 'Name', value: (row) => row.name },
+  { header: 'Role', value: (row) => row.role },
+  { header: 'Plan', value: (row) => row.subscription?.plan },
+  { header: 'Status', value: (row) => row.subscription?.status },
+  { header: 'Complimentary', value: (row) => (row.subscription?.complimentary ? 'yes' : 'no') },
+  { header: 'Subscription start', value: (row) => row.subscription?.startDate },
+  { header: 'Subscription end', value: (row) => row.subscription?.endDate },
+  { header: 'Created', value: (row) => row.createdAt },
+  { header: 'Last active', value: (row) => row.lastActiveAt },
+  { header: 'Blocked', value: (row) => (row.isBlocked ? 'yes' : 'no') }
+];
 
 const Users: React.FC = () => {
-  const [rows, setRows] = useState<UserRow[]>([]);
+  const { can } = useAuth();
+  const { searchParams, updateQuery } = useQueryParams();
+  const page = Math.max(1, Number(searchParams.get('page')) || 1);
+  const limit = PAGE_SIZES.includes(Number(searchParams.get('limit'))) ? Number(searchParams.get('limit')) : DEFAULT_LIMIT;
+  const q = searchParams.get('q') || '';
+  const sort = parseSort(searchParams.get('sort'), SORT_FIELDS, DEFAULT_SORT);
+  const role = searchParams.get('role') || '';
+  const plan = searchParams.get('plan') || '';
+  const status = searchParams.get('status') || '';
+  const blocked = searchParams.get('blocked') || '';
+  const [searchInput, setSearchInput] = useDebouncedInput(q, (value) => updateQuery({ q: value || null, page: null }));
+  const queryClient = useQueryClient();
   const [error, setError] = useState('');
-  const [loading, setLoading] = useState(false);
+  const [subscriptionTarget, setSubscriptionTarget] = useState<UserRow | null>(null);
+  const listParams = {
+    page,
+    limit,
+    sort: formatSort(sort),
+    q: q || undefined,
+    role: role || undefined,
+    plan: plan || undefined,
+    status: status || undefined,
+    blocked: blocked ? blocked === 'true' : undefined
+  };
+  const usersQuery = useQuery({
+    queryKey: queryKeys.users.list(listParams),
+    queryFn: () => usersApi.list(listParams),
+    placeholderData: keepPreviousData
+  });
+  const rows = useMemo(() => usersQuery.data?.users ?? [], [usersQuery.data]);
+  const total = usersQuery.data?.pagination?.total ?? usersQuery.data?.total ?? rows.length;
+  const loading = usersQuery.isFetching;
+  const loadError = usersQuery.error ? getErrorMessage(usersQuery.error, 'Failed to load users') : '';
 
-  const load = async () => {
-    setLoading(true);
-    setError('');
-    try {
-      const res = await api.get('/admin/users?limit=50', { headers: { 'Cache-Control': 'no-cache' } });
-      setRows(res.data.data.users || []);
-    } catch (err: any) {
-      setError(err?.response?.data?.message || 'Failed to load users');
-    } finally {
-      setLoading(false);
-    }
+  // Covers open detail pages too, so their plan and blocked state don't go stale.
+  const refreshUsers = () => queryClient.invalidateQueries({ queryKey: queryKeys.users.all });
+  const bulk = useBulkActions(rows, { getLabel: (row) => row.email, onComplete: refreshUsers });
+
+  const handleSort = (field: SortField) => {
+    const order: SortOrder = sort.field === field && sort.order === 'asc' ? 'desc' : 'asc';
+    updateQuery({ sort: formatSort({ field, order }), page: null });
   };
 
-  useEffect(() => { load(); }, []);
+  const exportUsers = (onProgress: (loaded: number, total?: number) => void) =>
+    fetchAllPages(async (pageNumber, pageSize) => {
+      const data = await usersApi.list({ ...listParams, page: pageNumber, limit: pageSize });
+      return { rows: data.users, total: data.pagination?.total ?? data.total };
+    }, onProgress);
 
-  const toggleBlock = async (id: string) => {
-    try {
-      await api.put(`/admin/users/${id}/block`);
-      await load();
-    } catch (err: any) {
-      setError(err?.response?.data?.message || 'Failed to toggle block');
-    }
+  const hasFilters = !!q || FILTER_KEYS.some((key) => searchParams.get(key));
+  const clearFilters = () => {
+    setSearchInput('');
+    updateQuery({ q: null, page: null, ...Object.fromEntries(FILTER_KEYS.map((key) => [key, null])) });
   };
 
-  const makePremium = async (id: string) => {
-    try {
-      await api.put(`/admin/users/${id}/subscription`, { plan: 'PREMIUM', status: 'ACTIVE' });
-      await load();
-    } catch (err: any) {
-      setError(err?.response?.data?.message || 'Failed to update subscription');
-    }
+  const patchUser = (id: string, patch: (user: UserRow) => UserRow) =>
+    patchQueries<UserList>(queryClient, queryKeys.users.lists(), (data) => ({
+      ...data,
+      users: data.users.map((user) => (user._id === id ? patch(user) : user))
+    }));
+
+  // Block and subscription changes show instantly in the table; the snapshot is restored if the API rejects the change.
+  const blockMutation = useMutation({
+    mutationFn: (id: string) => usersApi.toggleBlock(id),
+    onMutate: (id) => patchUser(id, (user) => ({ ...user, isBlocked: !user.isBlocked })),
+    onError: (err, _id, rollback) => {
+      rollback?.();
+      setError(getErrorMessage(err, 'Failed to toggle block'));
+    },
+    onSettled: refreshUsers
+  });
+
+  // Errors surface in the subscription dialog, which awaits the mutation.
+  const subscriptionMutation = useMutation({
+    mutationFn: ({ id, update }: { id: string; update: SubscriptionUpdate }) => usersApi.updateSubscription(id, update),
+    onMutate: ({ id, update }) => {
+      const { reason, ...subscription } = update;
+      return patchUser(id, (user) => ({ ...user, subscription: { ...user.subscription, ...subscription } }));
+    },
+    onError: (_err, _vars, rollback) => rollback?.(),
+    onSettled: refreshUsers
+  });
+
+  const toggleBlock = (id: string) => {
+    setError('');
+    blockMutation.mutate(id);
+  };
+
+  const saveSubscription = async (update: SubscriptionUpdate) => {
+    if (!subscriptionTarget) return;
+    setError('');
+    await subscriptionMutation.mutateAsync({ id: subscriptionTarget._id, update });
   };
 
   const deleteUser = async (id: string) => {
     if (!confirm('Delete this user?')) return;
     try {
-      await api.delete(`/admin/users/${id}`);
-      await load();
-    } catch (err: any) {
-      setError(err?.response?.data?.message || 'Failed to delete user');
+      await usersApi.remove(id);
+      await refreshUsers();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to delete user'));
+    }
+  };
+
+  // The block endpoint toggles, so only hit it for users not already in the requested state.
+  const bulkSetBlocked = (blocked: boolean) => bulk.run(async (row) => {
+    if (!!row.isBlocked === blocked) return;
+    await usersApi.toggleBlock(row._id);
+  });
+
+  // Same audit rule as the subscription dialog: every plan change carries a reason.
+  const bulkSetPlan = (plan: string) => {
+    const answer = prompt(`Reason for moving ${bulk.selected.size} user(s) to ${plan}`);
+    if (answer === null) return;
+    const reason = answer.trim();
+    if (!reason) {
+      setError('Give a reason for this change');
+      return;
     }
+    setError('');
+    bulk.run(async (row) => {
+      await usersApi.updateSubscription(row._id, { plan, status: 'ACTIVE', reason });
+    });
+  };
+
+  const bulkDelete = () => {
+    if (!confirm(`Delete ${bulk.selected.size} user(s)? This cannot be undone.`)) return;
+    bulk.run(async (row) => {
+      await usersApi.remove(row._id);
+    });
   };
 
   return (
     <Stack spacing={2}>
       <Stack direction="row" justifyContent="space-between" alignItems="center">
         <Typography variant="h6">Users</Typography>
-        <Button variant="outlined" onClick={load} disabled={loading}>{loading ? 'Loading…' : 'Refresh'}</Button>
+        <Stack direction="row" spacing={1}>
+          <ExportButton filename="users" columns={EXPORT_COLUMNS} loadRows={exportUsers} onError={setError} />
+          <Button variant="outlined" onClick={() => usersQuery.refetch()} disabled={loading}>{loading ? 'Loading…' : 'Refresh'}</Button>
+        </Stack>
       </Stack>
-      {error && <Alert severity="error">{error}</Alert>}
+      {(error || loadError) && <Alert severity="error">{error || loadError}</Alert>}
+      <Stack direction="row" spacing={1} alignItems="center" flexWrap="wrap" useFlexGap>
+        <TextField
+          label="Search users"
+          placeholder="Email or user ID"
+          value={searchInput}
+          onChange={(e) => setSearchInput(e.target.value)}
+          size="small"
+          sx={{ minWidth: 280 }}
+        />
+        <TextField select size="small" label="Role" value={role} onChange={(e) => updateQuery({ role: e.target.value, page: null })} sx={{ minWidth: 150 }}>
+          <MenuItem value="">All</MenuItem>
+          {ROLES.map((option) => (
+            <MenuItem key={option} value={option}>{option}</MenuItem>
+          ))}
+        </TextField>
+        <TextField select size="small" label="Plan" value={plan} onChange={(e) => updateQuery({ plan: e.target.value, page: null })} sx={{ minWidth: 120 }}>
+          <MenuItem value="">All</MenuItem>
+          {PLANS.map((option) => (
+            <MenuItem key={option} value={option}>{option}</MenuItem>
+          ))}
+        </TextField>
+        <TextField select size="small" label="Status" value={status} onChange={(e) => updateQuery({ status: e.target.value, page: null })} sx={{ minWidth: 130 }}>
+          <MenuItem value="">All</MenuItem>
+          {SUBSCRIPTION_STATUSES.map((option) => (
+            <MenuItem key={option} value={option}>{option}</MenuItem>
+          ))}
+        </TextField>
+        <TextField select size="small" label="Blocked" value={blocked} onChange={(e) => updateQuery({ blocked: e.target.value, page: null })} sx={{ minWidth: 120 }}>
+          <MenuItem value="">All</MenuItem>
+          <MenuItem value="true">Blocked</MenuItem>
+          <MenuItem value="false">Not blocked</MenuItem>
+        </TextField>
+        {hasFilters && <Button size="small" onClick={clearFilters}>Clear filters</Button>}
+      </Stack>
+      <BulkActionBar bulk={bulk}>
+        <Button size="small" onClick={() => bulkSetBlocked(true)} disabled={bulk.running || !can('users:edit')}>Block</Button>
+        <Button size="small" onClick={() => bulkSetBlocked(false)} disabled={bulk.running || !can('users:edit')}>Unblock</Button>
+        <TextField
+          select
+          size="small"
+          label="Change plan"
+          value=""
+          onChange={(e) => bulkSetPlan(e.target.value)}
+          disabled={bulk.running || !can('users:edit')}
+          sx={{ minWidth: 140 }}
+        >
+          {PLANS.map((option) => (
+            <MenuItem key={option} value={option}>{option}</MenuItem>
+          ))}
+        </TextField>
+        <Button size="small" color="error" onClick={bulkDelete} disabled={bulk.running || !can('users:delete')}>Delete</Button>
+      </BulkActionBar>
       <Paper>
         <Table size="small">
           <TableHead>
             <TableRow>
+              <TableCell padding="checkbox"><SelectAllCheckbox bulk={bulk} /></TableCell>
               <TableCell>Email</TableCell>
               <TableCell>Role</TableCell>
               <TableCell>Plan</TableCell>
               <TableCell>Status</TableCell>
+              <TableCell>Ends</TableCell>
+              <TableCell sortDirection={sort.field === 'createdAt' ? sort.order : false}>
+                <TableSortLabel active={sort.field === 'createdAt'} direction={sort.field === 'createdAt' ? sort.order : 'asc'} onClick={() => handleSort('createdAt')}>
+                  Created
+                </TableSortLabel>
+              </TableCell>
+              <TableCell sortDirection={sort.field === 'lastActiveAt' ? sort.order : false}>
+                <TableSortLabel active={sort.field === 'lastActiveAt'} direction={sort.field === 'lastActiveAt' ? sort.order : 'asc'} onClick={() => handleSort('lastActiveAt')}>
+                  Last active
+                </TableSortLabel>
+              </TableCell>
               <TableCell>Blocked</TableCell>
               <TableCell width={220}>Actions</TableCell>
             </TableRow>
           </TableHead>
           <TableBody>
             {rows.map((row) => (
-              <TableRow key={row._id} hover>
-                <TableCell>{row.email}</TableCell>
+              <TableRow key={row._id} hover selected={bulk.selected.has(row._id)}>
+                <TableCell padding="checkbox"><RowCheckbox bulk={bulk} id={row._id} /></TableCell>
+                <TableCell>
+                  <Link component={RouterLink} to={`/users/${row._id}`} underline="hover">{row.email}</Link>
+                </TableCell>
                 <TableCell>{row.role}</TableCell>
                 <TableCell>{row.subscription?.plan}</TableCell>
-                <TableCell>{row.subscription?.status}</TableCell>
+                <TableCell>{row.subscription?.status}{row.subscription?.complimentary && ' (comp)'}</TableCell>
+                <TableCell>{row.subscription?.endDate ? new Date(row.subscription.endDate).toLocaleDateString() : '-'}</TableCell>
+                <TableCell>{row.createdAt ? new Date(row.createdAt).toLocaleDateString() : '-'}</TableCell>
+                <TableCell>{row.lastActiveAt ? new Date(row.lastActiveAt).toLocaleString() : '-'}</TableCell>
                 <TableCell>{row.isBlocked ? 'Yes' : 'No'}</TableCell>
                 <TableCell>
                   <Stack direction="row" spacing={1}>
-                    <Button size="small" onClick={() => toggleBlock(row._id)}>{row.isBlocked ? 'Unblock' : 'Block'}</Button>
-                    <Button size="small" onClick={() => makePremium(row._id)}>Make Premium</Button>
-                    <Button size="small" color="error" onClick={() => deleteUser(row._id)}>Delete</Button>
+                    <Button size="small" onClick={() => toggleBlock(row._id)} disabled={!can('users:edit')}>{row.isBlocked ? 'Unblock' : 'Block'}</Button>
+                    <Button size="small" onClick={() => setSubscriptionTarget(row)} disabled={!can('users:edit')}>Subscription</Button>
+                    <Button size="small" color="error" onClick={() => deleteUser(row._id)} disabled={!can('users:delete')}>Delete</Button>
                   </Stack>
                 </TableCell>
               </TableRow>
             ))}
+            {!loading && rows.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={10} align="center">
+                  <Typography variant="body2" color="text.secondary">{hasFilters ? 'No users match these filters' : 'No users yet'}</Typography>
+                </TableCell>
+              </TableRow>
+            )}
           </TableBody>
         </Table>
+        <TablePagination
+          component="div"
+          count={total}
+          page={page - 1}
+          rowsPerPage={limit}
+          rowsPerPageOptions={PAGE_SIZES}
+          onPageChange={(_, next) => updateQuery({ page: next > 0 ? next + 1 : null })}
+          onRowsPerPageChange={(e) => updateQuery({ limit: Number(e.target.value), page: null })}
+        />
       </Paper>
+
+      <SubscriptionDialog user={subscriptionTarget} onClose={() => setSubscriptionTarget(null)} onSave={saveSubscription} />
     </Stack>
   );
 };
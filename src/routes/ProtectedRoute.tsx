@@ -1,10 +1,23 @@
 import React from 'react';
 import { Navigate } from 'react-router-dom';
+import { Box, CircularProgress } from '@mui/material';
 import { useAuth } from '../state/AuthContext';
+import { normalizeRole, type Permission } from '../state/permissions';
+import Forbidden from '../pages/Forbidden';
 
-const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const { user } = useAuth();
+const ProtectedRoute: React.FC<{ children: React.ReactNode; permission?: Permission }> = ({ children, permission }) => {
+  const { user, initializing, can } = useAuth();
+  if (initializing) {
+    return (
+      <Box sx={{ display: 'grid', placeItems: 'center', minHeight: '60vh' }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
   if (!user) return <Navigate to="/login" replace />;
+  // Viewer accounts can log in against the same API but have no business in the admin shell.
+  if (!normalizeRole(user.role)) return <Forbidden />;
+  if (permission && !can(permission)) return <Forbidden />;
   return <>{children}</>;
 };
 
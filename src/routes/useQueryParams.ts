@@ -0,0 +1,58 @@
+import { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface Sort<F extends string> {
+  field: F;
+  order: SortOrder;
+}
+
+// List pages keep their sort in the URL as a field name, prefixed with `-` for descending order,
+// which is also what the API takes.
+export const parseSort = <F extends string>(raw: string | null, fields: readonly F[], fallback: Sort<F>): Sort<F> => {
+  const desc = !!raw && raw.startsWith('-');
+  const field = (raw || '').replace(/^-/, '') as F;
+  if (!fields.includes(field)) return fallback;
+  return { field, order: desc ? 'desc' : 'asc' };
+};
+
+export const formatSort = <F extends string>(sort: Sort<F>) => `${sort.order === 'desc' ? '-' : ''}${sort.field}`;
+
+// Filters, paging and sort live in the URL so a link opens the same view. Changes replace the
+// history entry rather than adding one; null or empty values drop the key.
+export const useQueryParams = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const updateQuery = (changes: Record<string, string | number | null>) => {
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev);
+      Object.entries(changes).forEach(([key, value]) => {
+        if (value === null || value === '') next.delete(key);
+        else next.set(key, String(value));
+      });
+      return next;
+    }, { replace: true });
+  };
+
+  return { searchParams, updateQuery };
+};
+
+const SEARCH_DEBOUNCE_MS = 400;
+
+// A text box bound to a URL value: it follows the URL (back/forward, "Clear filters") and commits what
+// was typed once typing pauses, so the API isn't hit on every keystroke.
+export const useDebouncedInput = (value: string, commit: (next: string) => void) => {
+  const [input, setInput] = useState(value);
+
+  // Keeps what was typed when the URL only caught up with its trimmed form, so a trailing space survives.
+  useEffect(() => { setInput((prev) => (prev.trim() === value ? prev : value)); }, [value]);
+
+  useEffect(() => {
+    if (input === value) return;
+    const id = setTimeout(() => commit(input.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(id);
+  }, [input]);
+
+  return [input, setInput] as const;
+};
@@ -0,0 +1,25 @@
+import { useEffect } from 'react';
+import { useBlocker } from 'react-router-dom';
+
+const MESSAGE = 'You have unsaved changes. Leave this page and discard them?';
+
+// Asks before leaving a page with unsaved edits, both for in-app navigation and for reloads/closing the tab.
+export const useUnsavedChangesPrompt = (when: boolean) => {
+  const blocker = useBlocker(({ currentLocation, nextLocation }) => when && currentLocation.pathname !== nextLocation.pathname);
+
+  useEffect(() => {
+    if (blocker.state !== 'blocked') return;
+    if (confirm(MESSAGE)) blocker.proceed();
+    else blocker.reset();
+  }, [blocker]);
+
+  useEffect(() => {
+    if (!when) return;
+    const onBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = MESSAGE;
+    };
+    window.addEventListener('beforeunload', onBeforeUnload);
+    return () => window.removeEventListener('beforeunload', onBeforeUnload);
+  }, [when]);
+};
@@ -1,5 +1,7 @@
-import React, { createContext, useContext, useEffect, useState } from 'react';
-import api, { setAccessToken } from '../api/client';
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import api, { getAccessToken, getTokenExpiry, onSessionExpired, refreshAccessToken, setAccessToken } from '../api/client';
+import { queryClient } from '../api/queries';
+import { hasPermission, type Permission } from './permissions';
 
 interface User {
   id: string;
@@ -10,27 +12,111 @@ interface User {
 interface AuthState {
   user: User | null;
   loading: boolean;
+  initializing: boolean;
   login: (email: string, password: string) => Promise<void>;
   logout: () => void;
+  can: (permission: Permission) => boolean;
 }
 
+// Refresh this long before the access token expires so in-flight requests never see a 401.
+const REFRESH_LEEWAY_MS = 60 * 1000;
+
+const readStoredUser = (): User | null => {
+  const storedUser = localStorage.getItem('user');
+  if (!storedUser) return null;
+  try {
+    return JSON.parse(storedUser);
+  } catch (_) {
+    localStorage.removeItem('user');
+    return null;
+  }
+};
+
 const AuthContext = createContext<AuthState | undefined>(undefined);
 
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [user, setUser] = useState<User | null>(null);
+  const [user, setUser] = useState<User | null>(readStoredUser);
   const [loading, setLoading] = useState(false);
+  const [initializing, setInitializing] = useState(() => !!localStorage.getItem('user'));
+
+  const logout = useCallback(() => {
+    setAccessToken(null);
+    localStorage.removeItem('refreshToken');
+    localStorage.removeItem('user');
+    // Cached lists belong to the signed-out admin; the next one must not see them, even briefly.
+    queryClient.clear();
+    setUser(null);
+  }, []);
 
+  // Confirm the stored session is still accepted by the API before showing protected pages.
   useEffect(() => {
-    const storedUser = localStorage.getItem('user');
-    if (storedUser) {
+    if (!initializing) return;
+    let cancelled = false;
+    (async () => {
       try {
-        setUser(JSON.parse(storedUser));
-      } catch (_) {
-        localStorage.removeItem('user');
+        const res = await api.get('/auth/me');
+        const u = res.data.data?.user || res.data.data;
+        if (cancelled) return;
+        const verified = { id: u.id || u._id, email: u.email, role: u.role };
+        localStorage.setItem('user', JSON.stringify(verified));
+        setUser(verified);
+      } catch (error: any) {
+        console.warn('[Auth] Session validation failed:', error.response?.data || error.message);
+        // Without a response we're probably offline; keep the stored session rather than forcing a re-login.
+        if (!cancelled && error.response) logout();
+      } finally {
+        if (!cancelled) setInitializing(false);
       }
-    }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [initializing, logout]);
+
+  useEffect(() => onSessionExpired(logout), [logout]);
+
+  // Keep other tabs in step: tokens and the user live in localStorage, which fires `storage` elsewhere.
+  useEffect(() => {
+    const onStorage = (e: StorageEvent) => {
+      if (e.key !== 'user' && e.key !== null) return;
+      setUser(readStoredUser());
+    };
+    window.addEventListener('storage', onStorage);
+    return () => window.removeEventListener('storage', onStorage);
   }, []);
 
+  // Refresh the access token shortly before it expires instead of waiting for a 401.
+  useEffect(() => {
+    if (!user) return;
+    let timer: ReturnType<typeof setTimeout>;
+    let cancelled = false;
+
+    const schedule = () => {
+      const expiry = getTokenExpiry(getAccessToken());
+      if (!expiry) return;
+      // A little jitter stops several open tabs from refreshing at the same instant.
+      const delay = Math.max(expiry - Date.now() - REFRESH_LEEWAY_MS - Math.random() * 5000, 0);
+      timer = setTimeout(async () => {
+        // Another tab may already have refreshed; only refresh if the stored token is still close to expiry.
+        const current = getTokenExpiry(getAccessToken());
+        if (current && current - Date.now() > REFRESH_LEEWAY_MS) {
+          schedule();
+          return;
+        }
+        const token = await refreshAccessToken();
+        if (cancelled) return;
+        if (!token) logout();
+        else schedule();
+      }, delay);
+    };
+
+    schedule();
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [user, logout]);
+
   const login = async (email: string, password: string) => {
     setLoading(true);
     try {
@@ -51,15 +137,10 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
-  const logout = () => {
-    setAccessToken(null);
-    localStorage.removeItem('refreshToken');
-    localStorage.removeItem('user');
-    setUser(null);
-  };
+  const can = (permission: Permission) => hasPermission(user?.role, permission);
 
   return (
-    <AuthContext.Provider value={{ user, loading, login, logout }}>
+    <AuthContext.Provider value={{ user, loading, initializing, login, logout, can }}>
       {children}
     </AuthContext.Provider>
   );
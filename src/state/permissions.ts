@@ -0,0 +1,49 @@
+export type Role = 'SUPER_ADMIN' | 'CONTENT_EDITOR' | 'SUPPORT' | 'ANALYST';
+
+export type Permission =
+  | 'analytics:view'
+  | 'content:view'
+  | 'content:edit'
+  | 'content:publish'
+  | 'content:delete'
+  | 'users:view'
+  | 'users:edit'
+  | 'users:delete'
+  | 'integrations:view';
+
+const ALL_PERMISSIONS: Permission[] = [
+  'analytics:view',
+  'content:view',
+  'content:edit',
+  'content:publish',
+  'content:delete',
+  'users:view',
+  'users:edit',
+  'users:delete',
+  'integrations:view'
+];
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  SUPER_ADMIN: ALL_PERMISSIONS,
+  CONTENT_EDITOR: ['analytics:view', 'content:view', 'content:edit', 'content:publish', 'integrations:view'],
+  SUPPORT: ['content:view', 'users:view', 'users:edit'],
+  ANALYST: ['analytics:view', 'content:view', 'users:view']
+};
+
+// Accounts created before roles were split out still carry the old catch-all ADMIN role.
+const ROLE_ALIASES: Record<string, Role> = {
+  ADMIN: 'SUPER_ADMIN'
+};
+
+export const normalizeRole = (role?: string | null): Role | null => {
+  if (!role) return null;
+  const upper = role.toUpperCase();
+  if (upper in ROLE_PERMISSIONS) return upper as Role;
+  return ROLE_ALIASES[upper] || null;
+};
+
+export const hasPermission = (role: string | null | undefined, permission: Permission): boolean => {
+  const normalized = normalizeRole(role);
+  if (!normalized) return false;
+  return ROLE_PERMISSIONS[normalized].includes(permission);
+};
@@ -0,0 +1,11 @@
+import type { Author } from '../api';
+
+// Staff references may be populated or a bare id; show the most readable part available.
+export const formatAuthor = (author: Author) => {
+  if (!author) return 'Unknown';
+  if (typeof author === 'string') return author;
+  return author.name || author.email || author._id || 'Unknown';
+};
+
+// Rates are 0–1.
+export const formatPercent = (rate: number) => `${(rate * 100).toFixed(1)}%`;